@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, type Mock, vi } from 'vitest';
+
+import { ANALYTICS_ADAPTERS, bindAnalytics, createAnalyticsSender } from './analytics';
+import { ATTR, resolveConfig } from './config';
+import type { FaqAnalyticsEvent } from './types';
+
+const EVENT: FaqAnalyticsEvent = { name: 'faq_open', params: { instance: 'default', slug: 'a' } };
+
+describe('ANALYTICS_ADAPTERS', () => {
+  afterEach(() => {
+    delete window.dataLayer;
+    delete window.gtag;
+    delete window.plausible;
+  });
+
+  it('pushes to the data layer, creating it if needed', () => {
+    ANALYTICS_ADAPTERS.datalayer(EVENT);
+    expect(window.dataLayer).toEqual([{ event: 'faq_open', instance: 'default', slug: 'a' }]);
+  });
+
+  it('calls gtag and plausible when they are loaded', () => {
+    ANALYTICS_ADAPTERS.gtag(EVENT);
+    ANALYTICS_ADAPTERS.plausible(EVENT);
+    window.gtag = vi.fn();
+    window.plausible = vi.fn();
+    ANALYTICS_ADAPTERS.gtag(EVENT);
+    ANALYTICS_ADAPTERS.plausible(EVENT);
+    expect(window.gtag).toHaveBeenCalledWith('event', 'faq_open', EVENT.params);
+    expect(window.plausible).toHaveBeenCalledWith('faq_open', { props: EVENT.params });
+  });
+});
+
+describe('createAnalyticsSender', () => {
+  it('forwards events to every adapter and the callback', () => {
+    const trackEvent = vi.fn();
+    const send = createAnalyticsSender({ analytics: ['datalayer'], trackEvent })!;
+    send(EVENT);
+    expect(trackEvent).toHaveBeenCalledWith(EVENT);
+    expect(window.dataLayer).toHaveLength(1);
+    delete window.dataLayer;
+  });
+
+  it('is off without adapters or a callback', () => {
+    expect(createAnalyticsSender({ analytics: [], trackEvent: null })).toBeNull();
+  });
+});
+
+describe('bindAnalytics', () => {
+  let root: HTMLElement;
+  let item: HTMLElement;
+  let send: Mock<(event: FaqAnalyticsEvent) => void>;
+  let unbind: () => void;
+
+  const fire = (target: HTMLElement, type: string, detail: unknown) =>
+    target.dispatchEvent(new CustomEvent(type, { detail, bubbles: true }));
+
+  const search = (query: string, matchCount: number) =>
+    fire(root, 'cur-faq:search', {
+      query,
+      matchCount,
+      results: matchCount ? [{ item, score: 1 }] : [],
+    });
+
+  const names = () => send.mock.calls.map(([event]) => event.name);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    document.body.innerHTML = `<section ${ATTR.instance}="help"><div id="item"></div></section>`;
+    root = document.querySelector('section')!;
+    item = document.getElementById('item')!;
+    send = vi.fn();
+    unbind = bindAnalytics(root, 'default', resolveConfig(null), send, (el) =>
+      el === item ? { slug: 'refunds', question: 'Refunds?' } : null
+    );
+  });
+
+  afterEach(() => {
+    unbind();
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  it('reports a query once it has settled, and zero-result queries apart', () => {
+    search('ref', 2);
+    search('refund', 2);
+    vi.advanceTimersByTime(1000);
+    search('refund', 2);
+    search('xyz', 0);
+    vi.advanceTimersByTime(1000);
+
+    expect(send.mock.calls.map(([event]) => event)).toEqual([
+      {
+        name: 'faq_search',
+        params: { instance: 'default', query: 'refund', results: 1, matches: 2 },
+      },
+      {
+        name: 'faq_search_no_results',
+        params: { instance: 'default', query: 'xyz', results: 0, matches: 0 },
+      },
+    ]);
+  });
+
+  it('counts match moves per query', () => {
+    fire(item, 'cur-faq:navigate', { query: 'refund', index: 1, total: 3 });
+    fire(item, 'cur-faq:navigate', { query: 'refund', index: 2, total: 3 });
+    unbind();
+    expect(send).toHaveBeenCalledWith({
+      name: 'faq_match_navigate',
+      params: { instance: 'default', query: 'refund', navigations: 2 },
+    });
+  });
+
+  it('reports opens and the time items stay open', () => {
+    fire(item, 'cur-faq:open', { item });
+    vi.advanceTimersByTime(4000);
+    fire(item, 'cur-faq:close', { item });
+    expect(send.mock.calls.map(([event]) => event)).toEqual([
+      { name: 'faq_open', params: { instance: 'default', slug: 'refunds', question: 'Refunds?' } },
+      {
+        name: 'faq_dwell',
+        params: { instance: 'default', slug: 'refunds', question: 'Refunds?', dwell_ms: 4000 },
+      },
+    ]);
+  });
+
+  it('leaves out items opened by search and items it cannot describe', () => {
+    item.setAttribute(ATTR.dataOpenedBySearch, 'true');
+    fire(item, 'cur-faq:open', { item });
+    fire(item, 'cur-faq:close', { item });
+    const other = document.createElement('div');
+    root.appendChild(other);
+    fire(other, 'cur-faq:open', { item: other });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('tracks items opened and closed all at once', () => {
+    fire(root, 'cur-faq:toggle-all', { open: true, items: [item] });
+    fire(root, 'cur-faq:toggle-all', { open: false, items: [item] });
+    expect(names()).toEqual(['faq_open', 'faq_dwell']);
+  });
+
+  it('pauses dwell time while the page is hidden', () => {
+    const visibility = vi.spyOn(document, 'visibilityState', 'get');
+    fire(item, 'cur-faq:open', { item });
+    vi.advanceTimersByTime(1000);
+    send.mockClear();
+
+    visibility.mockReturnValue('hidden');
+    document.dispatchEvent(new Event('visibilitychange'));
+    vi.advanceTimersByTime(60000);
+    visibility.mockReturnValue('visible');
+    document.dispatchEvent(new Event('visibilitychange'));
+    vi.advanceTimersByTime(500);
+    fire(item, 'cur-faq:close', { item });
+
+    expect(send.mock.calls.map(([event]) => event.params.dwell_ms)).toEqual([1000, 500]);
+    visibility.mockRestore();
+  });
+});
@@ -0,0 +1,170 @@
+import { debounce } from '$utils/helpers';
+
+import { ATTR } from './config';
+import { ownerRoot } from './scope';
+import type { AnalyticsAdapterName, FaqAnalyticsEvent, FaqConfig } from './types';
+
+/** Forward an event to one analytics tool, if it is loaded on the page. */
+type AnalyticsAdapter = (event: FaqAnalyticsEvent) => void;
+
+/** Adapters for the tools named in `cur-faq-analytics`. */
+export const ANALYTICS_ADAPTERS: Record<AnalyticsAdapterName, AnalyticsAdapter> = {
+  // Google Tag Manager reads events pushed before it loads, so the layer is created if needed
+  datalayer: ({ name, params }) => {
+    window.dataLayer = window.dataLayer ?? [];
+    window.dataLayer.push({ event: name, ...params });
+  },
+  gtag: ({ name, params }) => window.gtag?.('event', name, params),
+  plausible: ({ name, params }) => window.plausible?.(name, { props: params }),
+};
+
+/**
+ * Combine the configured adapters and `trackEvent` callback into one sender, or `null` when
+ * analytics is off.
+ */
+export const createAnalyticsSender = (
+  config: Pick<FaqConfig, 'analytics' | 'trackEvent'>
+): AnalyticsAdapter | null => {
+  const adapters = config.analytics.map((name) => ANALYTICS_ADAPTERS[name]);
+  if (config.trackEvent) adapters.push(config.trackEvent);
+  if (!adapters.length) return null;
+  return (event) => adapters.forEach((adapter) => adapter(event));
+};
+
+/** Slug and question text of an item element, if it belongs to the instance. */
+export type DescribeItem = (item: HTMLElement) => { slug: string; question: string } | null;
+
+/**
+ * Report an instance's interactions, gathered from the events it dispatches on `root`:
+ *
+ * - `faq_search` / `faq_search_no_results` once a query has settled for
+ *   `timing.analyticsDebounce`, so each keystroke isn't counted;
+ * - `faq_match_navigate` with the number of moves between matches of a query, once the
+ *   visitor searches for something else or leaves the page;
+ * - `faq_open` when the visitor opens an item, and `faq_dwell` with the time it stayed open
+ *   when it closes or the page is hidden. Items opened by search are left out.
+ *
+ * Returns a cleanup function, which reports a pending search and match moves first.
+ */
+export const bindAnalytics = (
+  root: HTMLElement,
+  instance: string,
+  config: FaqConfig,
+  send: AnalyticsAdapter,
+  describe: DescribeItem
+): (() => void) => {
+  let pendingSearch: { query: string; results: number; matches: number } | null = null;
+  let reportedQuery = '';
+  let navigation = { query: '', count: 0 };
+  // When each item was opened, or `null` while the page is hidden
+  const openedAt = new Map<HTMLElement, number | null>();
+
+  const isOwn = (e: Event) => ownerRoot(e.target as Element) === root;
+
+  const reportNavigation = () => {
+    if (navigation.count) {
+      send({
+        name: 'faq_match_navigate',
+        params: { instance, query: navigation.query, navigations: navigation.count },
+      });
+    }
+    navigation = { query: '', count: 0 };
+  };
+
+  const reportSearch = () => {
+    if (!pendingSearch) return;
+    const { query, results, matches } = pendingSearch;
+    pendingSearch = null;
+    reportNavigation();
+    reportedQuery = query;
+    send({
+      name: results ? 'faq_search' : 'faq_search_no_results',
+      params: { instance, query, results, matches },
+    });
+  };
+
+  const settleSearch = debounce(reportSearch, config.timing.analyticsDebounce);
+
+  const handleSearch = (e: Event) => {
+    const { query, matchCount, results } = (e as CustomEvent).detail;
+    const trimmed = String(query).trim();
+    if (!isOwn(e) || !trimmed) return;
+    // Re-runs of the same search (new items, tag changes) are not new queries
+    if (trimmed === reportedQuery && !pendingSearch) return;
+    pendingSearch = { query: trimmed, results: results.length, matches: matchCount };
+    settleSearch();
+  };
+
+  const handleNavigate = (e: Event) => {
+    if (!isOwn(e)) return;
+    const { query } = (e as CustomEvent).detail;
+    if (query !== navigation.query) reportNavigation();
+    navigation = { query, count: navigation.count + 1 };
+  };
+
+  const startDwell = (item: HTMLElement) => {
+    const described = describe(item);
+    if (!described || openedAt.has(item) || item.hasAttribute(ATTR.dataOpenedBySearch)) return;
+    openedAt.set(item, performance.now());
+    send({ name: 'faq_open', params: { instance, ...described } });
+  };
+
+  const reportDwell = (item: HTMLElement, since: number | null | undefined) => {
+    const described = describe(item);
+    if (!described || since === null || since === undefined) return;
+    send({
+      name: 'faq_dwell',
+      params: { instance, ...described, dwell_ms: Math.round(performance.now() - since) },
+    });
+  };
+
+  const endDwell = (item: HTMLElement) => {
+    reportDwell(item, openedAt.get(item));
+    openedAt.delete(item);
+  };
+
+  const handleOpen = (e: Event) => startDwell((e as CustomEvent).detail.item);
+  const handleClose = (e: Event) => endDwell((e as CustomEvent).detail.item);
+
+  const handleToggleAll = (e: Event) => {
+    const { open, items } = (e as CustomEvent).detail as { open: boolean; items: HTMLElement[] };
+    items.forEach(open ? startDwell : endDwell);
+  };
+
+  // Time spent on a hidden page doesn't count towards dwell time
+  const handleVisibilityChange = () => {
+    const hidden = document.visibilityState === 'hidden';
+    if (hidden) {
+      settleSearch.cancel();
+      reportSearch();
+      reportNavigation();
+    }
+    openedAt.forEach((since, item) => {
+      if (hidden) {
+        reportDwell(item, since);
+        openedAt.set(item, null);
+      } else if (since === null) {
+        openedAt.set(item, performance.now());
+      }
+    });
+  };
+
+  root.addEventListener('cur-faq:search', handleSearch);
+  root.addEventListener('cur-faq:navigate', handleNavigate);
+  root.addEventListener('cur-faq:open', handleOpen);
+  root.addEventListener('cur-faq:close', handleClose);
+  root.addEventListener('cur-faq:toggle-all', handleToggleAll);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+
+  return () => {
+    settleSearch.cancel();
+    reportSearch();
+    reportNavigation();
+    root.removeEventListener('cur-faq:search', handleSearch);
+    root.removeEventListener('cur-faq:navigate', handleNavigate);
+    root.removeEventListener('cur-faq:open', handleOpen);
+    root.removeEventListener('cur-faq:close', handleClose);
+    root.removeEventListener('cur-faq:toggle-all', handleToggleAll);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+};
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  batchAnimations,
+  collapseElement,
+  configureAnimation,
+  expandElement,
+  hideContent,
+  resetAnimation,
+} from './animation';
+import { ATTR } from './config';
+import type { AnimationStrategy } from './types';
+
+let el: HTMLElement;
+
+const setup = (strategy: AnimationStrategy) => {
+  configureAnimation(el, { strategy, duration: 200, easing: 'linear' });
+  vi.spyOn(el, 'scrollHeight', 'get').mockReturnValue(120);
+};
+
+const endTransition = (propertyName: string) => {
+  const event = new Event('transitionend') as TransitionEvent;
+  Object.defineProperty(event, 'propertyName', { value: propertyName });
+  el.dispatchEvent(event);
+};
+
+/** Stub `matchMedia` so the system asks for reduced motion, or not. */
+const stubReducedMotion = (reduce: boolean) =>
+  vi.stubGlobal('matchMedia', (query: string) => ({ matches: reduce, media: query }));
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  document.body.innerHTML = '<div hidden><p>Answer</p></div>';
+  el = document.querySelector('div')!;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  document.body.innerHTML = '';
+});
+
+describe('configureAnimation / resetAnimation', () => {
+  it('marks the strategy on the element and removes it again', () => {
+    configureAnimation(el, { strategy: 'grid', duration: 200, easing: 'ease' });
+    expect(el.getAttribute(ATTR.dataAnimation)).toBe('grid');
+    expandElement(el);
+    resetAnimation(el);
+    expect(el.hasAttribute(ATTR.dataAnimation)).toBe(false);
+    expect(el.hasAttribute(ATTR.dataExpanded)).toBe(false);
+  });
+});
+
+describe('hideContent', () => {
+  it('hides until found where the browser supports it', () => {
+    el.removeAttribute('hidden');
+    hideContent(el);
+    expect(el.getAttribute('hidden')).toBe('');
+
+    Object.defineProperty(document.body, 'onbeforematch', { value: null, configurable: true });
+    hideContent(el);
+    expect(el.getAttribute('hidden')).toBe('until-found');
+    delete (document.body as { onbeforematch?: unknown }).onbeforematch;
+  });
+});
+
+describe('height strategy', () => {
+  it('transitions to the measured height and resolves when the transition ends', async () => {
+    setup('height');
+    const done = vi.fn();
+    expandElement(el).then(done);
+    expect(el.hasAttribute('hidden')).toBe(false);
+    expect(el.style.height).toBe('120px');
+    expect(el.style.willChange).toBe('height');
+
+    endTransition('height');
+    await vi.waitFor(() => expect(done).toHaveBeenCalled());
+    expect(el.style.height).toBe('auto');
+    expect(el.style.willChange).toBe('');
+  });
+
+  it('resolves after the duration when no transition runs', async () => {
+    setup('height');
+    const expanded = expandElement(el);
+    vi.advanceTimersByTime(250);
+    await expanded;
+    const collapsed = collapseElement(el);
+    expect(el.hasAttribute('hidden')).toBe(false);
+    vi.advanceTimersByTime(250);
+    await collapsed;
+    expect(el.hasAttribute('hidden')).toBe(true);
+    expect(el.style.height).toBe('');
+  });
+
+  it('leaves an element alone once a later toggle has taken over', async () => {
+    setup('height');
+    el.removeAttribute('hidden');
+    const collapsed = collapseElement(el);
+    const expanded = expandElement(el);
+    vi.advanceTimersByTime(250);
+    await Promise.all([collapsed, expanded]);
+    expect(el.hasAttribute('hidden')).toBe(false);
+    expect(el.style.height).toBe('auto');
+  });
+});
+
+describe('CSS strategies', () => {
+  it.each([
+    ['grid', 'grid-template-rows'],
+    ['interpolate', 'height'],
+  ] as const)('%s toggles the expanded marker and waits for %s', async (strategy, property) => {
+    setup(strategy);
+    const expanded = expandElement(el);
+    expect(el.hasAttribute(ATTR.dataExpanded)).toBe(true);
+    expect(el.style.height).toBe('');
+    endTransition(property);
+    await expanded;
+
+    const collapsed = collapseElement(el);
+    expect(el.hasAttribute(ATTR.dataExpanded)).toBe(false);
+    expect(el.hasAttribute('hidden')).toBe(false);
+    endTransition(property);
+    await collapsed;
+    expect(el.hasAttribute('hidden')).toBe(true);
+  });
+});
+
+describe('waapi strategy', () => {
+  it('animates the height with the configured duration and easing', async () => {
+    setup('waapi');
+    const cancel = vi.fn();
+    const animate = vi.fn(() => ({ finished: Promise.resolve(), cancel }));
+    el.animate = animate as unknown as HTMLElement['animate'];
+
+    await expandElement(el);
+    expect(animate).toHaveBeenCalledWith([{ height: '0px' }, { height: '120px' }], {
+      duration: 200,
+      easing: 'linear',
+      fill: 'forwards',
+    });
+    expect(cancel).toHaveBeenCalled();
+    expect(el.hasAttribute('hidden')).toBe(false);
+
+    await collapseElement(el);
+    expect(el.hasAttribute('hidden')).toBe(true);
+  });
+
+  it('toggles instantly where the Web Animations API is missing', async () => {
+    setup('waapi');
+    const collapsed = collapseElement(el);
+    await expandElement(el);
+    await collapsed;
+    expect(el.hasAttribute('hidden')).toBe(false);
+  });
+});
+
+describe('reduced motion', () => {
+  it('toggles instantly whatever the strategy', async () => {
+    stubReducedMotion(true);
+    setup('height');
+    const expanded = expandElement(el);
+    expect(el.style.height).toBe('');
+    await expanded;
+    const collapsed = collapseElement(el);
+    expect(el.hasAttribute('hidden')).toBe(true);
+    await collapsed;
+  });
+});
+
+describe('batchAnimations', () => {
+  it('resolves queued animations once the batch has finished', async () => {
+    stubReducedMotion(true);
+    setup('height');
+    let expanded: Promise<void> | undefined;
+    batchAnimations(() => {
+      expanded = expandElement(el);
+      expect(el.hasAttribute('hidden')).toBe(true);
+    });
+    await expanded;
+    expect(el.hasAttribute('hidden')).toBe(false);
+  });
+});
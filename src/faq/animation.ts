@@ -0,0 +1,256 @@
+import { ATTR } from './config';
+import type { AnimationStrategy } from './types';
+
+/** How a content element expands and collapses, as set with `configureAnimation()`. */
+export interface AnimationSettings {
+  strategy: AnimationStrategy;
+  /** Duration in ms, matching the element's `--cur-faq-collapse-duration`. */
+  duration: number;
+  /** CSS easing function, matching the element's `--cur-faq-easing`. */
+  easing: string;
+}
+
+const DEFAULT_SETTINGS: AnimationSettings = { strategy: 'height', duration: 250, easing: 'ease' };
+
+/** Extra wait after a transition's duration before giving up on its `transitionend`. */
+const TRANSITION_SLACK = 50;
+
+/** Settings per content element. */
+const settingsByElement = new WeakMap<HTMLElement, AnimationSettings>();
+
+/** Latest run per element, so a superseded run leaves the element alone when it ends. */
+const latestRuns = new WeakMap<HTMLElement, number>();
+let runCount = 0;
+
+/** Running Web Animations, cancelled when the element is toggled again. */
+const runningAnimations = new WeakMap<HTMLElement, Animation>();
+
+/** Set how a content element animates. Its strategy is mirrored in `data-faq-animation`. */
+export const configureAnimation = (el: HTMLElement, settings: AnimationSettings): void => {
+  settingsByElement.set(el, settings);
+  el.setAttribute(ATTR.dataAnimation, settings.strategy);
+};
+
+/** Stop animating a content element and remove what the animations set on it. */
+export const resetAnimation = (el: HTMLElement): void => {
+  runningAnimations.get(el)?.cancel();
+  runningAnimations.delete(el);
+  latestRuns.delete(el);
+  settingsByElement.delete(el);
+  el.removeAttribute(ATTR.dataAnimation);
+  el.removeAttribute(ATTR.dataExpanded);
+  el.style.height = '';
+  el.style.willChange = '';
+};
+
+/** Whether the visitor asked the system for reduced motion. */
+export const prefersReducedMotion = (): boolean =>
+  typeof window.matchMedia === 'function' &&
+  window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+/** Whether the browser supports `hidden="until-found"`, revealing content for find-in-page. */
+export const supportsHiddenUntilFound = (): boolean => 'onbeforematch' in document.body;
+
+/**
+ * Hide a content element. Where supported it is hidden `until-found`, so the browser's
+ * find-in-page still searches it and fires `beforematch` on it when it holds a match.
+ */
+export const hideContent = (el: HTMLElement): void =>
+  el.setAttribute('hidden', supportsHiddenUntilFound() ? 'until-found' : '');
+
+/** Strategy an element animates with right now: `none` under reduced motion or without support. */
+const strategyOf = (el: HTMLElement): AnimationStrategy => {
+  const { strategy } = settingsByElement.get(el) ?? DEFAULT_SETTINGS;
+  if (prefersReducedMotion()) return 'none';
+  if (strategy === 'waapi' && typeof el.animate !== 'function') return 'none';
+  return strategy;
+};
+
+/** Force a synchronous layout, so the styles set before it are the transition's start. */
+const forceReflow = (): void => {
+  document.body.offsetHeight; // eslint-disable-line @typescript-eslint/no-unused-expressions
+};
+
+/**
+ * Resolve when `el`'s transition of `property` ends, or once its duration has passed without
+ * one — the transition may be overridden by the page's CSS, or unsupported.
+ */
+const waitForTransition = (el: HTMLElement, property: string): Promise<void> =>
+  new Promise((resolve) => {
+    const { duration } = settingsByElement.get(el) ?? DEFAULT_SETTINGS;
+    const done = () => {
+      window.clearTimeout(timer);
+      el.removeEventListener('transitionend', onEnd);
+      resolve();
+    };
+    const onEnd = (e: TransitionEvent) => {
+      if (e.target === el && e.propertyName === property) done();
+    };
+    const timer = window.setTimeout(done, duration + TRANSITION_SLACK);
+    el.addEventListener('transitionend', onEnd);
+  });
+
+/** Animate `el`'s height with the Web Animations API, replacing any animation it has. */
+const animateHeight = (el: HTMLElement, from: number, to: number): Promise<void> => {
+  const { duration, easing } = settingsByElement.get(el) ?? DEFAULT_SETTINGS;
+  runningAnimations.get(el)?.cancel();
+  const animation = el.animate([{ height: `${from}px` }, { height: `${to}px` }], {
+    duration,
+    easing,
+    fill: 'forwards',
+  });
+  runningAnimations.set(el, animation);
+  // A cancelled animation rejects; its replacement takes over
+  return animation.finished.then(
+    () => undefined,
+    () => undefined
+  );
+};
+
+/** Finish a Web Animation once its end state has been applied with styles. */
+const releaseAnimation = (el: HTMLElement): void => {
+  runningAnimations.get(el)?.cancel();
+  runningAnimations.delete(el);
+};
+
+/** Start a run for `els`, returning a check for whether an element's run is still the latest. */
+const startRun = (els: HTMLElement[]): ((el: HTMLElement) => boolean) => {
+  runCount += 1;
+  const run = runCount;
+  els.forEach((el) => latestRuns.set(el, run));
+  return (el) => latestRuns.get(el) === run;
+};
+
+/**
+ * Expand content elements, each with its configured strategy. Styles are written for every
+ * element before any height is read, so a batch costs one forced layout rather than one per
+ * element. Resolves when every animation has finished.
+ */
+export const expandElements = (els: HTMLElement[]): Promise<void> => {
+  const isLatest = startRun(els);
+  const strategies = els.map(strategyOf);
+  // A Web Animation interrupted halfway starts from where it got to, not from zero
+  const interrupted = els.map((el) => runningAnimations.has(el));
+
+  els.forEach((el, index) => {
+    el.removeAttribute('hidden');
+    if (strategies[index] === 'height') {
+      el.style.height = '0px';
+      el.style.willChange = 'height';
+    }
+  });
+  forceReflow();
+  const targets = els.map((el) => el.scrollHeight);
+  const starts = els.map((el, index) => (interrupted[index] ? el.offsetHeight : 0));
+
+  return Promise.all(
+    els.map((el, index) => {
+      el.setAttribute(ATTR.dataExpanded, '');
+      switch (strategies[index]) {
+        case 'height':
+          el.style.height = `${targets[index]}px`;
+          return waitForTransition(el, 'height').then(() => {
+            if (!isLatest(el)) return;
+            el.style.height = 'auto';
+            el.style.willChange = '';
+          });
+        case 'grid':
+          return waitForTransition(el, 'grid-template-rows');
+        case 'interpolate':
+          return waitForTransition(el, 'height');
+        case 'waapi':
+          return animateHeight(el, starts[index], targets[index]).then(() => {
+            if (isLatest(el)) releaseAnimation(el);
+          });
+        default:
+          releaseAnimation(el);
+          el.style.height = '';
+          return Promise.resolve();
+      }
+    })
+  ).then(() => undefined);
+};
+
+/** Collapse content elements, each with its configured strategy, batching reads and writes likewise. */
+export const collapseElements = (els: HTMLElement[]): Promise<void> => {
+  const isLatest = startRun(els);
+  const strategies = els.map(strategyOf);
+
+  const hide = (el: HTMLElement) => {
+    if (!isLatest(el)) return;
+    hideContent(el);
+    el.style.height = '';
+    el.style.willChange = '';
+    releaseAnimation(el);
+  };
+
+  const visible = els.filter((el) => {
+    if (!el.hasAttribute('hidden')) return true;
+    el.removeAttribute(ATTR.dataExpanded);
+    el.style.height = '';
+    return false;
+  });
+  const currents = visible.map((el) => el.scrollHeight);
+  const starts = visible.map((el) => el.offsetHeight);
+  visible.forEach((el, index) => {
+    if (strategies[els.indexOf(el)] !== 'height') return;
+    el.style.height = `${currents[index]}px`;
+    el.style.willChange = 'height';
+  });
+  forceReflow();
+
+  return Promise.all(
+    visible.map((el, index) => {
+      el.removeAttribute(ATTR.dataExpanded);
+      switch (strategies[els.indexOf(el)]) {
+        case 'height':
+          el.style.height = '0px';
+          return waitForTransition(el, 'height').then(() => hide(el));
+        case 'grid':
+          return waitForTransition(el, 'grid-template-rows').then(() => hide(el));
+        case 'interpolate':
+          return waitForTransition(el, 'height').then(() => hide(el));
+        case 'waapi':
+          return animateHeight(el, starts[index], 0).then(() => hide(el));
+        default:
+          hide(el);
+          return Promise.resolve();
+      }
+    })
+  ).then(() => undefined);
+};
+
+/** A queued animation and the resolver of the promise returned for it. */
+interface QueuedAnimation {
+  el: HTMLElement;
+  done: () => void;
+}
+
+/** Animations queued by `batchAnimations`, or `null` when each one runs immediately. */
+let animationBatch: { expand: QueuedAnimation[]; collapse: QueuedAnimation[] } | null = null;
+
+/** Queue an animation in the current batch, resolving when the batch's animations finish. */
+const queue = (list: QueuedAnimation[], el: HTMLElement): Promise<void> =>
+  new Promise((done) => list.push({ el, done }));
+
+/** Expand a content element, or queue it while a batch is being collected. */
+export const expandElement = (el: HTMLElement): Promise<void> =>
+  animationBatch ? queue(animationBatch.expand, el) : expandElements([el]);
+
+/** Collapse a content element, or queue it while a batch is being collected. */
+export const collapseElement = (el: HTMLElement): Promise<void> =>
+  animationBatch ? queue(animationBatch.collapse, el) : collapseElements([el]);
+
+/** Run `fn`, then start every expand and collapse it triggered as one batch. */
+export const batchAnimations = (fn: () => void): void => {
+  animationBatch = { expand: [], collapse: [] };
+  try {
+    fn();
+  } finally {
+    const { expand, collapse } = animationBatch;
+    animationBatch = null;
+    const settle = (queued: QueuedAnimation[]) => () => queued.forEach(({ done }) => done());
+    if (collapse.length) collapseElements(collapse.map(({ el }) => el)).then(settle(collapse));
+    if (expand.length) expandElements(expand.map(({ el }) => el)).then(settle(expand));
+  }
+};
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { bindAnnouncements } from './announce';
+import { ATTR, resolveConfig } from './config';
+import type { SearchState } from './types';
+
+describe('bindAnnouncements', () => {
+  let root: HTMLElement;
+  let region: HTMLElement;
+  let searchState: SearchState;
+  let unbind: () => void;
+
+  const fire = (target: HTMLElement, type: string, detail: unknown) =>
+    target.dispatchEvent(new CustomEvent(type, { detail, bubbles: true }));
+
+  /** Search with `itemCount` matching items, each holding three highlighted matches. */
+  const search = (query: string, itemCount: number) => {
+    searchState.query = query;
+    const results = Array.from({ length: itemCount }, () => ({ item: root, score: 1 }));
+    fire(root, 'cur-faq:search', { query, matchCount: itemCount * 3, results });
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    document.body.innerHTML = `<section ${ATTR.instance}="help"><p>Text</p></section><div></div>`;
+    root = document.querySelector('section')!;
+    region = document.querySelector('div')!;
+    searchState = {
+      marks: [],
+      currentIndex: -1,
+      searchOpenedItems: new Set(),
+      query: '',
+      tags: [],
+    };
+    unbind = bindAnnouncements(root, region, searchState, resolveConfig(null));
+  });
+
+  afterEach(() => {
+    unbind();
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  it('announces the number of matching items once searching has settled', () => {
+    search('ref', 1);
+    vi.advanceTimersByTime(200);
+    search('refund', 3);
+    expect(region.textContent).toBe('');
+    vi.advanceTimersByTime(500);
+    expect(region.textContent).toBe('3 results');
+
+    search('refunds', 1);
+    vi.advanceTimersByTime(500);
+    expect(region.textContent).toBe('1 result');
+  });
+
+  it('announces when nothing matches', () => {
+    search('xyz', 0);
+    vi.advanceTimersByTime(500);
+    expect(region.textContent).toBe('No results found');
+  });
+
+  it('announces the position of the current match', () => {
+    search('refund', 12);
+    fire(root.querySelector('p')!, 'cur-faq:navigate', { query: 'refund', index: 2, total: 12 });
+    vi.advanceTimersByTime(500);
+    expect(region.textContent).toBe('Match 3 of 12');
+  });
+
+  it('changes the text when the same announcement repeats', () => {
+    search('refund', 3);
+    vi.advanceTimersByTime(500);
+    search('refund', 3);
+    vi.advanceTimersByTime(500);
+    expect(region.textContent).toBe('3 results\u00a0');
+  });
+
+  it('drops a pending announcement once the search is cleared', () => {
+    search('refund', 3);
+    searchState.query = '';
+    vi.advanceTimersByTime(500);
+    expect(region.textContent).toBe('');
+  });
+
+  it('ignores other instances and stops on cleanup', () => {
+    const other = document.createElement('section');
+    other.setAttribute(ATTR.instance, 'other');
+    root.appendChild(other);
+    searchState.query = 'refund';
+    fire(other, 'cur-faq:search', { query: 'refund', matchCount: 2, results: [{}, {}] });
+    vi.advanceTimersByTime(500);
+    expect(region.textContent).toBe('');
+
+    search('refund', 2);
+    unbind();
+    vi.advanceTimersByTime(500);
+    expect(region.textContent).toBe('');
+  });
+});
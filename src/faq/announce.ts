@@ -0,0 +1,66 @@
+import { debounce } from '$utils/helpers';
+
+import { formatMessage } from './messages';
+import { ownerRoot } from './scope';
+import type { FaqConfig, SearchState } from './types';
+
+/**
+ * Announce an instance's search results to screen readers in `region`, a polite live region,
+ * gathered from the events it dispatches on `root`:
+ *
+ * - the number of matching items (`resultCount`), or `noResults`, after each search;
+ * - the position of the current match among all matches (`matchPosition`) after each move to
+ *   the next or previous one.
+ *
+ * Announcements wait for `timing.announceDebounce` without a newer one, so typing and
+ * repeated moves only announce where they end up. A pending announcement is dropped if the
+ * search has been cleared meanwhile. Returns a cleanup function.
+ */
+export const bindAnnouncements = (
+  root: HTMLElement,
+  region: HTMLElement,
+  searchState: SearchState,
+  config: FaqConfig
+): (() => void) => {
+  let pending = '';
+
+  const flush = debounce(() => {
+    const text = searchState.query ? pending : '';
+    pending = '';
+    // The same text set twice isn't announced again; a trailing no-break space makes it new
+    region.textContent = text && region.textContent === text ? `${text}\u00a0` : text;
+  }, config.timing.announceDebounce);
+
+  const announce = (text: string) => {
+    pending = text;
+    flush();
+  };
+
+  const isOwn = (e: Event) => ownerRoot(e.target as Element) === root;
+
+  const handleSearch = (e: Event) => {
+    if (!isOwn(e)) return;
+    const { results } = (e as CustomEvent).detail as { results: unknown[] };
+    const total = results.length;
+    announce(
+      total
+        ? formatMessage(config, 'resultCount', { total }, total)
+        : formatMessage(config, 'noResults')
+    );
+  };
+
+  const handleNavigate = (e: Event) => {
+    if (!isOwn(e)) return;
+    const { index, total } = (e as CustomEvent).detail as { index: number; total: number };
+    announce(formatMessage(config, 'matchPosition', { current: index + 1, total }));
+  };
+
+  root.addEventListener('cur-faq:search', handleSearch);
+  root.addEventListener('cur-faq:navigate', handleNavigate);
+
+  return () => {
+    flush.cancel();
+    root.removeEventListener('cur-faq:search', handleSearch);
+    root.removeEventListener('cur-faq:navigate', handleNavigate);
+  };
+};
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { bindCombobox } from './combobox';
+import { ATTR } from './config';
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+const OPTIONS = [
+  { label: 'How do refunds work?', value: 'refunds' },
+  { label: 'Can I return a gift?', value: 'gifts' },
+];
+
+const setup = (template = '') => {
+  document.body.innerHTML = `<input type="search" /><ul id="list">${template}</ul>`;
+  const input = document.querySelector('input')!;
+  const listbox = document.getElementById('list')!;
+  const onSelect = vi.fn();
+  const templateEl = listbox.querySelector<HTMLElement>(`[${ATTR.element}]`);
+  const combobox = bindCombobox(input, listbox, templateEl, onSelect);
+  const press = (key: string) => {
+    const event = new KeyboardEvent('keydown', { key, cancelable: true });
+    input.dispatchEvent(event);
+    return event;
+  };
+  const options = () => Array.from(listbox.querySelectorAll<HTMLElement>('[role="option"]'));
+  return { input, listbox, onSelect, combobox, press, options };
+};
+
+describe('bindCombobox', () => {
+  it('sets up the combobox and listbox roles', () => {
+    const { input, listbox } = setup();
+    expect(input.getAttribute('role')).toBe('combobox');
+    expect(input.getAttribute('aria-autocomplete')).toBe('list');
+    expect(input.getAttribute('aria-expanded')).toBe('false');
+    expect(input.getAttribute('aria-controls')).toBe('list');
+    expect(listbox.getAttribute('role')).toBe('listbox');
+    expect(listbox.style.display).toBe('none');
+  });
+
+  it('lists options and closes when there are none', () => {
+    const { input, listbox, combobox, options } = setup();
+    combobox.show(OPTIONS);
+    expect(options().map((el) => [el.tagName, el.textContent])).toEqual([
+      ['LI', 'How do refunds work?'],
+      ['LI', 'Can I return a gift?'],
+    ]);
+    expect(input.getAttribute('aria-expanded')).toBe('true');
+    expect(listbox.style.display).toBe('');
+
+    combobox.show([]);
+    expect(options()).toHaveLength(0);
+    expect(input.getAttribute('aria-expanded')).toBe('false');
+  });
+
+  it('moves the active option with the arrow keys, wrapping around', () => {
+    const { input, combobox, press, options } = setup();
+    combobox.show(OPTIONS);
+
+    expect(press('ArrowUp').defaultPrevented).toBe(true);
+    expect(input.getAttribute('aria-activedescendant')).toBe(options()[1].id);
+    press('ArrowDown');
+    expect(input.getAttribute('aria-activedescendant')).toBe(options()[0].id);
+    expect(options().map((el) => el.getAttribute('aria-selected'))).toEqual(['true', 'false']);
+  });
+
+  it('selects the active option on Enter, before other keydown listeners', () => {
+    const { input, onSelect, combobox, press } = setup();
+    const later = vi.fn();
+    input.addEventListener('keydown', later);
+    combobox.show(OPTIONS);
+
+    press('Enter');
+    expect(onSelect).not.toHaveBeenCalled();
+    expect(later).toHaveBeenCalledOnce();
+
+    press('ArrowDown');
+    press('ArrowDown');
+    press('Enter');
+    expect(onSelect).toHaveBeenCalledWith('gifts');
+    expect(input.value).toBe('Can I return a gift?');
+    expect(input.getAttribute('aria-expanded')).toBe('false');
+    expect(later).toHaveBeenCalledTimes(3);
+  });
+
+  it('selects a clicked option and closes on Escape or blur', () => {
+    const { input, onSelect, combobox, press, options } = setup();
+    combobox.show(OPTIONS);
+    options()[0].click();
+    expect(onSelect).toHaveBeenCalledWith('refunds');
+
+    combobox.show(OPTIONS);
+    press('Escape');
+    expect(input.getAttribute('aria-expanded')).toBe('false');
+
+    combobox.show(OPTIONS);
+    input.dispatchEvent(new FocusEvent('blur'));
+    expect(options()).toHaveLength(0);
+  });
+
+  it('clones the template for each option and restores everything on destroy', () => {
+    const { input, listbox, combobox, options } = setup(
+      `<li ${ATTR.element}="suggestion" class="suggestion"></li>`
+    );
+    const template = listbox.querySelector<HTMLElement>('.suggestion')!;
+    expect(template.style.display).toBe('none');
+
+    combobox.show(OPTIONS);
+    expect(options().map((el) => el.className)).toEqual(['suggestion', 'suggestion']);
+    expect(options()[0].hasAttribute(ATTR.element)).toBe(false);
+
+    combobox.destroy();
+    expect(options()).toHaveLength(0);
+    expect(template.style.display).toBe('');
+    expect(input.hasAttribute('role')).toBe(false);
+    expect(input.hasAttribute('aria-expanded')).toBe(false);
+    expect(listbox.hasAttribute('role')).toBe(false);
+  });
+
+  it("writes the label into the template's suggestion-label element", () => {
+    const { combobox, options } = setup(`
+      <li ${ATTR.element}="suggestion"><svg></svg><span ${ATTR.element}="suggestion-label"></span></li>
+    `);
+    combobox.show(OPTIONS);
+    const [first] = options();
+    expect(first.querySelector('svg')).not.toBeNull();
+    expect(first.querySelector('span')!.textContent).toBe(OPTIONS[0].label);
+    expect(first.textContent).toBe(OPTIONS[0].label);
+  });
+});
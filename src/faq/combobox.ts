@@ -0,0 +1,192 @@
+import { ensureId } from '$utils/helpers';
+
+import { ATTR, ROLES } from './config';
+
+/** One entry of a combobox's listbox. */
+export interface ComboboxOption<T> {
+  label: string;
+  value: T;
+}
+
+/** Controls for a combobox bound with `bindCombobox()`. */
+export interface Combobox<T> {
+  /** Replace the listed options and open the listbox, or close it when there are none. */
+  show(options: ComboboxOption<T>[]): void;
+  hide(): void;
+  /** Remove listeners and rendered options, restoring the input, listbox and template. */
+  destroy(): void;
+}
+
+/** Attributes the combobox sets on the input, restored on destroy. */
+const INPUT_ATTRS = [
+  'role',
+  'aria-autocomplete',
+  'aria-expanded',
+  'aria-controls',
+  'aria-activedescendant',
+];
+
+/** Remember the current values of `attrs` on `el`, returning a function that restores them. */
+const saveAttributes = (el: HTMLElement, attrs: string[]): (() => void) => {
+  const saved = attrs.map((attr) => [attr, el.getAttribute(attr)] as const);
+  return () =>
+    saved.forEach(([attr, value]) => {
+      if (value === null) el.removeAttribute(attr);
+      else el.setAttribute(attr, value);
+    });
+};
+
+/** Build an option element: a clone of `template`, or a plain item matching the listbox. */
+const createOptionElement = (listbox: HTMLElement, template: HTMLElement | null): HTMLElement => {
+  if (template) {
+    const clone = template.cloneNode(true) as HTMLElement;
+    clone.removeAttribute(ATTR.element);
+    clone.removeAttribute('id');
+    clone.hidden = false;
+    clone.style.display = '';
+    return clone;
+  }
+  const isList = listbox.tagName === 'UL' || listbox.tagName === 'OL';
+  return document.createElement(isList ? 'li' : 'div');
+};
+
+/**
+ * Write an option's label into its `suggestion-label` element, or into the whole option when
+ * it has none.
+ */
+const setOptionLabel = (el: HTMLElement, label: string): void => {
+  const labelEl = el.querySelector<HTMLElement>(`[${ATTR.element}="${ROLES.suggestionLabel}"]`);
+  labelEl?.removeAttribute(ATTR.element);
+  (labelEl ?? el).textContent = label;
+};
+
+/**
+ * Turn a text input into an ARIA 1.2 list-autocomplete combobox that controls `listbox`.
+ * Options are clones of `template` (hidden while bound) when given, with the label in their
+ * `suggestion-label` element if they have one. Arrow keys move the
+ * active option, Enter or a click selects it — filling in its label and calling `onSelect`
+ * — and Escape or leaving the input closes the list. Focus stays in the input throughout.
+ */
+export const bindCombobox = <T>(
+  input: HTMLInputElement,
+  listbox: HTMLElement,
+  template: HTMLElement | null,
+  onSelect: (value: T) => void
+): Combobox<T> => {
+  const restoreInput = saveAttributes(input, INPUT_ATTRS);
+  const restoreListbox = saveAttributes(listbox, ['role']);
+  const listboxDisplay = listbox.style.display;
+  const templateDisplay = template?.style.display ?? '';
+  const listboxId = ensureId(listbox, 'cur-faq-suggestions');
+
+  let options: { el: HTMLElement; option: ComboboxOption<T> }[] = [];
+  let active = -1;
+
+  input.setAttribute('role', 'combobox');
+  input.setAttribute('aria-autocomplete', 'list');
+  input.setAttribute('aria-expanded', 'false');
+  input.setAttribute('aria-controls', listboxId);
+  listbox.setAttribute('role', 'listbox');
+  listbox.style.display = 'none';
+  if (template) template.style.display = 'none';
+
+  const isOpen = () => input.getAttribute('aria-expanded') === 'true';
+
+  const setActive = (index: number) => {
+    active = index;
+    options.forEach(({ el }, i) => el.setAttribute('aria-selected', String(i === index)));
+    const activeEl = options[index]?.el;
+    if (activeEl) {
+      input.setAttribute('aria-activedescendant', activeEl.id);
+      activeEl.scrollIntoView?.({ block: 'nearest' });
+    } else {
+      input.removeAttribute('aria-activedescendant');
+    }
+  };
+
+  const clear = () => {
+    options.forEach(({ el }) => el.remove());
+    options = [];
+    active = -1;
+  };
+
+  const hide = () => {
+    clear();
+    input.setAttribute('aria-expanded', 'false');
+    input.removeAttribute('aria-activedescendant');
+    listbox.style.display = 'none';
+  };
+
+  const show = (next: ComboboxOption<T>[]) => {
+    if (!next.length) {
+      hide();
+      return;
+    }
+    clear();
+    options = next.map((option, index) => {
+      const el = createOptionElement(listbox, template);
+      el.id = `${listboxId}-${index}`;
+      el.setAttribute('role', 'option');
+      el.setAttribute('aria-selected', 'false');
+      setOptionLabel(el, option.label);
+      listbox.appendChild(el);
+      return { el, option };
+    });
+    listbox.style.display = listboxDisplay;
+    input.setAttribute('aria-expanded', 'true');
+    input.removeAttribute('aria-activedescendant');
+  };
+
+  const select = (index: number) => {
+    const { option } = options[index];
+    input.value = option.label;
+    hide();
+    onSelect(option.value);
+  };
+
+  const handleKeydown = (e: KeyboardEvent) => {
+    if (!isOpen()) return;
+    const count = options.length;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      // From no active option, Down goes to the first option and Up to the last
+      setActive(active === -1 ? (step === 1 ? 0 : count - 1) : (active + step + count) % count);
+    } else if (e.key === 'Enter' && active !== -1) {
+      // Keep the search input from treating this Enter as "next match"
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      select(active);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      hide();
+    }
+  };
+
+  // Keep focus in the input while an option is pressed, so the blur doesn't close the list
+  const handleMousedown = (e: MouseEvent) => e.preventDefault();
+
+  const handleClick = (e: MouseEvent) => {
+    const index = options.findIndex(({ el }) => el.contains(e.target as Node));
+    if (index !== -1) select(index);
+  };
+
+  input.addEventListener('keydown', handleKeydown);
+  input.addEventListener('blur', hide);
+  listbox.addEventListener('mousedown', handleMousedown);
+  listbox.addEventListener('click', handleClick);
+
+  const destroy = () => {
+    clear();
+    input.removeEventListener('keydown', handleKeydown);
+    input.removeEventListener('blur', hide);
+    listbox.removeEventListener('mousedown', handleMousedown);
+    listbox.removeEventListener('click', handleClick);
+    restoreInput();
+    restoreListbox();
+    listbox.style.display = listboxDisplay;
+    if (template) template.style.display = templateDisplay;
+  };
+
+  return { show, hide, destroy };
+};
@@ -1,9 +1,25 @@
-import { afterEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, type MockInstance, vi } from 'vitest';
 
-import { ATTR, resolveConfig, resolveGroupConfig, ROLES } from './config';
+import {
+  ATTR,
+  MESSAGE_ATTRS,
+  resolveConfig,
+  resolveGroupConfig,
+  resolveOptions,
+  ROLES,
+} from './config';
+
+let warn: MockInstance;
+
+beforeEach(() => {
+  warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
 
 afterEach(() => {
   document.body.innerHTML = '';
+  document.documentElement.removeAttribute('lang');
+  warn.mockRestore();
+  vi.unstubAllGlobals();
 });
 
 describe('resolveConfig', () => {
@@ -16,6 +32,13 @@ describe('resolveConfig', () => {
     expect(config.timing.iconTransitionDuration).toBe(150);
     expect(config.timing.searchDebounce).toBe(300);
     expect(config.floatingSearch).toBe(false);
+    expect(config.searchMode).toBe('exact');
+    expect(config.searchOperator).toBe('and');
+    expect(config.locale).toBeNull();
+    expect(config.searchFilter).toBe(false);
+    expect(config.deepLink).toBe(false);
+    expect(config.persist).toBeNull();
+    expect(config.jsonLd).toBe(false);
   });
 
   it('reads class overrides from the search element', () => {
@@ -40,6 +63,16 @@ describe('resolveConfig', () => {
     expect(resolveConfig().floatingSearch).toBe(true);
   });
 
+  it('reads the floating panel position from the search element', () => {
+    expect(resolveConfig(null).floatingPosition).toBe('bottom-right');
+    document.body.innerHTML = `
+      <input ${ATTR.element}="${ROLES.search}" ${ATTR.floatingPosition}="top-bar" />
+    `;
+    expect(resolveConfig().floatingPosition).toBe('top-bar');
+    document.querySelector('input')!.setAttribute(ATTR.floatingPosition, 'middle');
+    expect(resolveConfig().floatingPosition).toBe('bottom-right');
+  });
+
   it('reads searchDebounce from the search element', () => {
     document.body.innerHTML = `
       <input ${ATTR.element}="${ROLES.search}" ${ATTR.searchDebounce}="500" />
@@ -47,6 +80,136 @@ describe('resolveConfig', () => {
     expect(resolveConfig().timing.searchDebounce).toBe(500);
   });
 
+  it('reads searchMode from the search element', () => {
+    document.body.innerHTML = `
+      <input ${ATTR.element}="${ROLES.search}" ${ATTR.searchMode}="fuzzy" />
+    `;
+    expect(resolveConfig().searchMode).toBe('fuzzy');
+  });
+
+  it('falls back to exact for unknown search modes', () => {
+    document.body.innerHTML = `
+      <input ${ATTR.element}="${ROLES.search}" ${ATTR.searchMode}="magic" />
+    `;
+    expect(resolveConfig().searchMode).toBe('exact');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('cur-faq-search-mode="magic"'));
+  });
+
+  it('reads searchOperator from the search element', () => {
+    document.body.innerHTML = `
+      <input ${ATTR.element}="${ROLES.search}" ${ATTR.searchOperator}="OR" />
+    `;
+    expect(resolveConfig().searchOperator).toBe('or');
+  });
+
+  it('reads deepLink from the search element', () => {
+    document.body.innerHTML = `
+      <input ${ATTR.element}="${ROLES.search}" ${ATTR.deepLink}="true" />
+    `;
+    expect(resolveConfig().deepLink).toBe(true);
+  });
+
+  it('reads persist from the search element', () => {
+    document.body.innerHTML = `
+      <input ${ATTR.element}="${ROLES.search}" ${ATTR.persist}="local" />
+    `;
+    expect(resolveConfig().persist).toBe('local');
+  });
+
+  it('reads jsonLd from the search element', () => {
+    document.body.innerHTML = `
+      <input ${ATTR.element}="${ROLES.search}" ${ATTR.jsonLd}="true" />
+    `;
+    expect(resolveConfig().jsonLd).toBe(true);
+  });
+
+  it('reads searchFilter from the search element', () => {
+    document.body.innerHTML = `
+      <input ${ATTR.element}="${ROLES.search}" ${ATTR.searchFilter}="true" />
+    `;
+    expect(resolveConfig().searchFilter).toBe(true);
+  });
+
+  it('reads the number of suggestions from the search element', () => {
+    expect(resolveConfig(null).suggestions).toBe(0);
+    document.body.innerHTML = `
+      <input ${ATTR.element}="${ROLES.search}" ${ATTR.suggestions}="5" />
+    `;
+    expect(resolveConfig().suggestions).toBe(5);
+  });
+
+  it('reads the locale from the html lang attribute by default', () => {
+    document.documentElement.setAttribute('lang', 'de-de');
+    expect(resolveConfig().locale).toBe('de-DE');
+  });
+
+  it('prefers the locale set on the search element', () => {
+    document.documentElement.setAttribute('lang', 'en');
+    document.body.innerHTML = `
+      <input ${ATTR.element}="${ROLES.search}" ${ATTR.locale}="tr" />
+    `;
+    expect(resolveConfig().locale).toBe('tr');
+  });
+
+  it('ignores invalid locales', () => {
+    document.documentElement.setAttribute('lang', 'not a locale!');
+    expect(resolveConfig().locale).toBeNull();
+  });
+
+  it('reads debug from the search element, with "true" meaning console', () => {
+    document.body.innerHTML = `
+      <input ${ATTR.element}="${ROLES.search}" ${ATTR.debug}="true" />
+    `;
+    expect(resolveConfig().debug).toBe('console');
+  });
+
+  it('reads debug from the instance root when the search element has none', () => {
+    document.body.setAttribute(ATTR.debug, 'overlay');
+    expect(resolveConfig(null, undefined, document.body).debug).toBe('overlay');
+    document.body.removeAttribute(ATTR.debug);
+  });
+
+  it('reads the tag mode from the search element or the instance root', () => {
+    expect(resolveConfig(null).tagMode).toBe('single');
+    document.body.setAttribute(ATTR.tagMode, 'all');
+    expect(resolveConfig(null, undefined, document.body).tagMode).toBe('all');
+    document.body.innerHTML = `<input ${ATTR.element}="${ROLES.search}" ${ATTR.tagMode}="any" />`;
+    expect(resolveConfig(undefined, undefined, document.body).tagMode).toBe('any');
+    document.body.removeAttribute(ATTR.tagMode);
+  });
+
+  it('reads the feedback URL from the search element or the instance root', () => {
+    expect(resolveConfig(null).feedbackUrl).toBeNull();
+    document.body.setAttribute(ATTR.feedbackUrl, '/feedback');
+    expect(resolveConfig(null, undefined, document.body).feedbackUrl).toBe('/feedback');
+    document.body.removeAttribute(ATTR.feedbackUrl);
+  });
+
+  it('reads analytics adapters as a list, skipping unknown ones', () => {
+    expect(resolveConfig(null).analytics).toEqual([]);
+    document.body.innerHTML = `
+      <input ${ATTR.element}="${ROLES.search}" ${ATTR.analytics}="Plausible, matomo, gtag" />
+    `;
+    expect(resolveConfig().analytics).toEqual(['gtag', 'plausible']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"matomo"'));
+  });
+
+  it('reads messages from the search element over the instance root and the base', () => {
+    document.body.innerHTML = `
+      <input ${ATTR.element}="${ROLES.search}" ${MESSAGE_ATTRS.noResults}="Nothing here" />
+    `;
+    document.body.setAttribute(MESSAGE_ATTRS.noResults, 'Ignored');
+    document.body.setAttribute(MESSAGE_ATTRS.nextMatch, 'Next');
+    const base = resolveOptions([{ messages: { searchLabel: 'Find' } }]).config;
+    expect(resolveConfig(undefined, base, document.body).messages).toEqual({
+      searchLabel: 'Find',
+      nextMatch: 'Next',
+      noResults: 'Nothing here',
+    });
+    document.body.removeAttribute(MESSAGE_ATTRS.noResults);
+    document.body.removeAttribute(MESSAGE_ATTRS.nextMatch);
+  });
+
   it('ignores empty attribute values and falls back to defaults', () => {
     document.body.innerHTML = `
       <input ${ATTR.element}="${ROLES.search}" ${ATTR.activeClass}="  " />
@@ -61,6 +224,7 @@ describe('resolveGroupConfig', () => {
     expect(config.accordion).toBe(false);
     expect(config.defaultOpen).toBeNull();
     expect(config.collapseDuration).toBe(250);
+    expect(config.rovingTabindex).toBe(false);
   });
 
   it('returns defaults when group has no attributes', () => {
@@ -89,10 +253,46 @@ describe('resolveGroupConfig', () => {
     expect(resolveGroupConfig(el).collapseDuration).toBe(400);
   });
 
+  it('reads the animation strategy and easing from the group element', () => {
+    const el = document.createElement('div');
+    expect(resolveGroupConfig(el).animation).toBe('height');
+    el.setAttribute(ATTR.animation, 'grid');
+    el.setAttribute(ATTR.easing, 'cubic-bezier(0.2, 0, 0, 1)');
+    expect(resolveGroupConfig(el)).toMatchObject({
+      animation: 'grid',
+      easing: 'cubic-bezier(0.2, 0, 0, 1)',
+    });
+  });
+
+  it('ignores unknown animation strategies', () => {
+    const el = document.createElement('div');
+    el.setAttribute(ATTR.animation, 'bounce');
+    expect(resolveGroupConfig(el).animation).toBe('height');
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it('ignores easing functions the browser rejects', () => {
+    vi.stubGlobal('CSS', { supports: (_: string, value: string) => value !== 'bouncy' });
+    const el = document.createElement('div');
+    el.setAttribute(ATTR.easing, 'bouncy');
+    expect(resolveGroupConfig(el).easing).toBe('ease');
+    const { config, groups } = resolveOptions([{ timing: { easing: 'bouncy' } }]);
+    expect(config.timing.easing).toBe('ease');
+    expect(groups.easing).toBe('ease');
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads rovingTabindex from the group element', () => {
+    const el = document.createElement('div');
+    el.setAttribute(ATTR.rovingTabindex, 'true');
+    expect(resolveGroupConfig(el).rovingTabindex).toBe(true);
+  });
+
   it('ignores non-numeric defaultOpen', () => {
     const el = document.createElement('div');
     el.setAttribute(ATTR.defaultOpen, 'abc');
     expect(resolveGroupConfig(el).defaultOpen).toBeNull();
+    expect(warn).toHaveBeenCalledOnce();
   });
 
   it('resolves different configs for different groups', () => {
@@ -115,3 +315,117 @@ describe('resolveGroupConfig', () => {
     expect(config2.collapseDuration).toBe(500);
   });
 });
+
+describe('resolveOptions', () => {
+  it('returns the defaults without options', () => {
+    const { config, groups } = resolveOptions([]);
+    expect(config).toEqual(resolveConfig(null));
+    expect(groups).toEqual(resolveGroupConfig(null));
+  });
+
+  it('deep-merges nested options, keeping unset defaults', () => {
+    const { config } = resolveOptions([
+      { colors: { highlightBackground: 'gold' }, timing: { collapseDuration: 400 } },
+    ]);
+    expect(config.colors).toEqual({
+      highlightBackground: 'gold',
+      currentHighlightBackground: '#5c6ac4',
+    });
+    expect(config.timing.collapseDuration).toBe(400);
+    expect(config.timing.searchDebounce).toBe(300);
+  });
+
+  it('lets later layers win', () => {
+    const { config } = resolveOptions([
+      { searchMode: 'fuzzy', searchFilter: true },
+      undefined,
+      { searchMode: 'exact' },
+    ]);
+    expect(config.searchMode).toBe('exact');
+    expect(config.searchFilter).toBe(true);
+  });
+
+  it('gives groups the instance collapse duration unless set for groups', () => {
+    expect(resolveOptions([{ timing: { collapseDuration: 400 } }]).groups.collapseDuration).toBe(
+      400
+    );
+    const { groups } = resolveOptions([
+      { timing: { collapseDuration: 400 }, groups: { collapseDuration: 100, accordion: true } },
+    ]);
+    expect(groups.collapseDuration).toBe(100);
+    expect(groups.accordion).toBe(true);
+  });
+
+  it('gives groups the instance easing unless set for groups', () => {
+    expect(resolveOptions([{ timing: { easing: 'linear' } }]).groups.easing).toBe('linear');
+    const { groups } = resolveOptions([
+      { timing: { easing: 'linear' }, groups: { easing: 'ease-out', animation: 'waapi' } },
+    ]);
+    expect(groups).toMatchObject({ easing: 'ease-out', animation: 'waapi' });
+  });
+
+  it('accepts plural messages as strings or forms with other', () => {
+    const resultCount = { one: '{total} answer', other: '{total} answers' };
+    expect(resolveOptions([{ messages: { resultCount } }]).config.messages.resultCount).toEqual(
+      resultCount
+    );
+    const { config } = resolveOptions([
+      { messages: { resultCount: { one: 'missing other' } as never } },
+      { messages: { resultCount: { other: 'x', some: 'y' } as never } },
+    ]);
+    expect(config.messages).toEqual({});
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips invalid values and unknown keys with a warning', () => {
+    const { config, groups } = resolveOptions([
+      {
+        searchMode: 'magic',
+        timing: { searchDebounce: -1 },
+        colour: 'red',
+        groups: { defaultOpen: 1.5 },
+      } as never,
+    ]);
+    expect(config.searchMode).toBe('exact');
+    expect(config.timing.searchDebounce).toBe(300);
+    expect(groups.defaultOpen).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(4);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"colour"'));
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"timing.searchDebounce"'));
+  });
+
+  it('canonicalises locales and accepts null for nullable options', () => {
+    const { config } = resolveOptions([{ locale: 'de-de', persist: 'local' }, { persist: null }]);
+    expect(config.locale).toBe('de-DE');
+    expect(config.persist).toBeNull();
+  });
+
+  it('accepts whole, non-negative suggestion counts', () => {
+    expect(resolveOptions([{ suggestions: 8 }]).config.suggestions).toBe(8);
+    expect(resolveOptions([{ suggestions: 2.5 }]).config.suggestions).toBe(0);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it('ignores a layer that is not an object', () => {
+    expect(resolveOptions(['fuzzy' as never]).config.searchMode).toBe('exact');
+    expect(warn).toHaveBeenCalledOnce();
+  });
+});
+
+describe('resolveConfig with a base', () => {
+  it('reads attributes over the base configuration', () => {
+    document.body.innerHTML = `
+      <input ${ATTR.element}="${ROLES.search}" ${ATTR.searchMode}="exact" />
+    `;
+    const { config: base } = resolveOptions([{ searchMode: 'fuzzy', searchFilter: true }]);
+    const config = resolveConfig(undefined, base);
+    expect(config.searchMode).toBe('exact');
+    expect(config.searchFilter).toBe(true);
+  });
+
+  it('prefers a locale option over the page language', () => {
+    document.documentElement.setAttribute('lang', 'en');
+    const { config: base } = resolveOptions([{ locale: 'tr' }]);
+    expect(resolveConfig(undefined, base).locale).toBe('tr');
+  });
+});
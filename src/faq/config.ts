@@ -1,20 +1,72 @@
-import type { FaqConfig, FaqGroupConfig } from './types';
+import type {
+  AnalyticsAdapterName,
+  AnimationStrategy,
+  DebugMode,
+  FaqConfig,
+  FaqGroupConfig,
+  FaqMessages,
+  FaqOptions,
+  FloatingPosition,
+  PersistMode,
+  SearchMode,
+  SearchOperator,
+  TagMode,
+} from './types';
 
 /** Attribute names — single source of truth for all selectors. */
 export const ATTR = {
   element: 'cur-faq-element',
+  instance: 'cur-faq-instance',
+  debug: 'cur-faq-debug',
   activeClass: 'cur-faq-activeclass',
   highlightClass: 'cur-faq-highlightclass',
   currentHighlightClass: 'cur-faq-currenthighlightclass',
   floatingSearch: 'cur-faq-floatingsearch',
+  floatingPosition: 'cur-faq-floating-position',
+  deepLink: 'cur-faq-deeplink',
+  persist: 'cur-faq-persist',
+  jsonLd: 'cur-faq-jsonld',
   collapseDuration: 'cur-faq-collapse-duration',
+  animation: 'cur-faq-animation',
+  easing: 'cur-faq-easing',
   searchDebounce: 'cur-faq-search-debounce',
+  searchMode: 'cur-faq-search-mode',
+  searchOperator: 'cur-faq-search-operator',
+  searchFilter: 'cur-faq-search-filter',
+  suggestions: 'cur-faq-suggestions',
+  locale: 'cur-faq-locale',
   accordion: 'cur-faq-accordion',
   defaultOpen: 'cur-faq-default-open',
+  rovingTabindex: 'cur-faq-roving-tabindex',
+  slug: 'cur-faq-slug',
+  tags: 'cur-faq-tags',
+  tag: 'cur-faq-tag',
+  tagMode: 'cur-faq-tag-mode',
+  feedbackUrl: 'cur-faq-feedback-url',
+  analytics: 'cur-faq-analytics',
+  collapseLabel: 'cur-faq-collapse-label',
   dataOpen: 'data-faq-open',
   dataOpenedBySearch: 'data-opened-by-search',
+  dataFiltered: 'data-faq-filtered',
+  dataFeedback: 'data-faq-feedback',
+  dataAnimation: 'data-faq-animation',
+  dataExpanded: 'data-faq-expanded',
+  dataPosition: 'data-faq-position',
 } as const;
 
+/** Attributes replacing each built-in message, on the search element or instance root. */
+export const MESSAGE_ATTRS: Record<keyof FaqMessages, string> = {
+  searchPlaceholder: 'cur-faq-msg-search-placeholder',
+  searchLabel: 'cur-faq-msg-search-label',
+  previousMatch: 'cur-faq-msg-previous-match',
+  nextMatch: 'cur-faq-msg-next-match',
+  matchCounter: 'cur-faq-msg-match-counter',
+  closeSearch: 'cur-faq-msg-close-search',
+  resultCount: 'cur-faq-msg-result-count',
+  matchPosition: 'cur-faq-msg-match-position',
+  noResults: 'cur-faq-msg-no-results',
+};
+
 /** Element role values used with `cur-faq-element="..."`. */
 export const ROLES = {
   group: 'group',
@@ -26,6 +78,32 @@ export const ROLES = {
   iconClose: 'icon-close',
   search: 'search',
   emptyState: 'empty-state',
+  expandAll: 'expand-all',
+  collapseAll: 'collapse-all',
+  toggleAll: 'toggle-all',
+  toggleLabel: 'toggle-label',
+  filter: 'filter',
+  suggestions: 'suggestions',
+  suggestion: 'suggestion',
+  suggestionLabel: 'suggestion-label',
+  feedback: 'feedback',
+  feedbackYes: 'feedback-yes',
+  feedbackNo: 'feedback-no',
+  feedbackComment: 'feedback-comment',
+  feedbackSubmit: 'feedback-submit',
+  feedbackThanks: 'feedback-thanks',
+  floatingPanel: 'floating-panel',
+  prev: 'prev',
+  next: 'next',
+  input: 'input',
+  counter: 'counter',
+  close: 'close',
+} as const;
+
+/** URL query-string parameters read by the module. */
+export const URL_PARAMS = {
+  query: 'faq-q',
+  tags: 'faq-tags',
 } as const;
 
 /** CSS custom property names injected as `:root` defaults. */
@@ -33,9 +111,39 @@ export const CSS_VARS = {
   highlightBg: '--cur-faq-highlight-bg',
   currentHighlightBg: '--cur-faq-current-highlight-bg',
   collapseDuration: '--cur-faq-collapse-duration',
+  easing: '--cur-faq-easing',
   iconDuration: '--cur-faq-icon-duration',
 } as const;
 
+/**
+ * CSS custom properties theming the built-in floating panel, with their default values. They
+ * are read with these fallbacks rather than declared, so they can be set on any ancestor.
+ */
+export const PANEL_VARS = {
+  background: ['--cur-faq-panel-bg', '#461276'],
+  color: ['--cur-faq-panel-color', 'white'],
+  border: ['--cur-faq-panel-border', '1px solid rgba(0,0,0,.1)'],
+  shadow: ['--cur-faq-panel-shadow', '0 4px 12px rgba(0,0,0,.12)'],
+  radius: ['--cur-faq-panel-radius', '8px'],
+  padding: ['--cur-faq-panel-padding', '6px 8px'],
+  gap: ['--cur-faq-panel-gap', '6px'],
+  font: ['--cur-faq-panel-font', 'inherit'],
+  offset: ['--cur-faq-panel-offset', '16px'],
+  zIndex: ['--cur-faq-panel-z-index', '2147483647'],
+  buttonColor: ['--cur-faq-panel-button-color', 'ButtonText'],
+  buttonBackground: ['--cur-faq-panel-button-bg', 'transparent'],
+  buttonHoverBackground: ['--cur-faq-panel-button-hover-bg', 'rgba(0,0,0,.06)'],
+  buttonRadius: ['--cur-faq-panel-button-radius', '6px'],
+  buttonPadding: ['--cur-faq-panel-button-padding', '4px 6px'],
+  inputWidth: ['--cur-faq-panel-input-width', '180px'],
+  inputBackground: ['--cur-faq-panel-input-bg', 'Field'],
+  inputColor: ['--cur-faq-panel-input-color', 'black'],
+  inputPadding: ['--cur-faq-panel-input-padding', '4px 6px'],
+  inputBorder: ['--cur-faq-panel-input-border', '1px solid rgba(0,0,0,.15)'],
+  inputRadius: ['--cur-faq-panel-input-radius', '6px'],
+  counterWidth: ['--cur-faq-panel-counter-width', '56px'],
+} as const;
+
 /** Default global configuration values. */
 const DEFAULTS: FaqConfig = {
   classes: {
@@ -45,23 +153,109 @@ const DEFAULTS: FaqConfig = {
   },
   timing: {
     collapseDuration: 250,
+    easing: 'ease',
     iconTransitionDuration: 150,
     searchDebounce: 300,
+    analyticsDebounce: 1000,
+    announceDebounce: 500,
   },
   colors: {
     highlightBackground: '#eef',
     currentHighlightBackground: '#5c6ac4',
   },
   floatingSearch: false,
+  floatingPosition: 'bottom-right',
+  deepLink: false,
+  persist: null,
+  jsonLd: false,
+  searchMode: 'exact',
+  searchOperator: 'and',
+  searchFilter: false,
+  suggestions: 0,
+  locale: null,
+  messages: {},
+  tagMode: 'single',
+  feedbackUrl: null,
+  sendFeedback: null,
+  analytics: [],
+  trackEvent: null,
+  debug: null,
 };
 
+/** Accepted values for `cur-faq-search-mode`. */
+const SEARCH_MODES: readonly SearchMode[] = ['exact', 'fuzzy'];
+
+/** Accepted values for `cur-faq-persist`. */
+const PERSIST_MODES: readonly PersistMode[] = ['session', 'local'];
+
+/** Accepted values for `cur-faq-search-operator`. */
+const SEARCH_OPERATORS: readonly SearchOperator[] = ['and', 'or'];
+
+/** Accepted values for `cur-faq-tag-mode`. */
+const TAG_MODES: readonly TagMode[] = ['single', 'any', 'all'];
+
+/** Accepted values for `cur-faq-floating-position`. */
+const FLOATING_POSITIONS: readonly FloatingPosition[] = [
+  'bottom-right',
+  'bottom-left',
+  'top-right',
+  'top-left',
+  'top-bar',
+  'docked',
+];
+
+/** Accepted values for `cur-faq-animation`. */
+const ANIMATION_STRATEGIES: readonly AnimationStrategy[] = [
+  'height',
+  'grid',
+  'interpolate',
+  'waapi',
+  'none',
+];
+
+/** Accepted values for `cur-faq-analytics`. */
+const ANALYTICS_ADAPTERS: readonly AnalyticsAdapterName[] = ['datalayer', 'gtag', 'plausible'];
+
+/** Keys accepted in plural messages. */
+const PLURAL_CATEGORIES: readonly string[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+/** Accepted values for `cur-faq-debug`; `"true"` is shorthand for `console`. */
+const DEBUG_MODES: readonly DebugMode[] = ['console', 'overlay'];
+
 /** Default per-group configuration values. */
 const GROUP_DEFAULTS: FaqGroupConfig = {
   accordion: false,
   defaultOpen: null,
   collapseDuration: DEFAULTS.timing.collapseDuration,
+  animation: 'height',
+  easing: DEFAULTS.timing.easing,
+  rovingTabindex: false,
 };
 
+/** Report a configuration problem without interrupting initialisation. */
+const warn = (message: string): void => {
+  // eslint-disable-next-line no-console
+  console.warn(`[cur-faq] ${message}`);
+};
+
+/** Canonicalise a BCP 47 language tag, returning `null` if it is invalid. */
+const canonicalLocale = (tag: string): string | null => {
+  try {
+    return Intl.getCanonicalLocales(tag)[0] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether the browser accepts `value` as an easing function. An invalid one would make
+ * `Element.animate()` throw under the `waapi` strategy.
+ */
+const isEasing = (value: string): boolean =>
+  typeof CSS === 'undefined' ||
+  typeof CSS.supports !== 'function' ||
+  CSS.supports('transition-timing-function', value);
+
 /** Read an attribute value from an element, returning `null` if missing or empty. */
 const readAttr = (el: Element | null, attr: string): string | null => {
   if (!el) return null;
@@ -69,11 +263,21 @@ const readAttr = (el: Element | null, attr: string): string | null => {
   return val && val.trim() ? val.trim() : null;
 };
 
+/** Read an easing function attribute, returning `null` if missing or invalid. */
+const readEasingAttr = (el: Element | null, attr: string): string | null => {
+  const val = readAttr(el, attr);
+  if (val === null) return null;
+  if (isEasing(val)) return val;
+  warn(`Ignoring ${attr}="${val}": not a valid easing function`);
+  return null;
+};
+
 /** Parse an integer attribute, returning `null` if invalid. */
 const readIntAttr = (el: Element | null, attr: string): number | null => {
   const val = readAttr(el, attr);
   if (val === null) return null;
   const num = parseInt(val, 10);
+  if (Number.isNaN(num)) warn(`Ignoring ${attr}="${val}": expected a number`);
   return Number.isNaN(num) ? null : num;
 };
 
@@ -84,39 +288,350 @@ const readBoolAttr = (el: Element | null, attr: string): boolean | null => {
   return val === 'true';
 };
 
+/** Read an attribute restricted to a set of values, returning `null` if missing or unknown. */
+const readEnumAttr = <T extends string>(
+  el: Element | null,
+  attr: string,
+  allowed: readonly T[]
+): T | null => {
+  const val = readAttr(el, attr)?.toLowerCase();
+  if (val === undefined) return null;
+  const match = allowed.find((option) => option === val) ?? null;
+  if (!match) warn(`Ignoring ${attr}="${val}": expected one of ${allowed.join(', ')}`);
+  return match;
+};
+
+/** Read a comma-separated list restricted to a set of values, skipping unknown entries. */
+const readListAttr = <T extends string>(
+  el: Element | null,
+  attr: string,
+  allowed: readonly T[]
+): T[] | null => {
+  const val = readAttr(el, attr);
+  if (val === null) return null;
+  const entries = val
+    .toLowerCase()
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const unknown = entries.filter((entry) => !allowed.includes(entry as T));
+  if (unknown.length) {
+    warn(`Ignoring "${unknown.join(', ')}" in ${attr}: expected ${allowed.join(', ')}`);
+  }
+  return allowed.filter((option) => entries.includes(option));
+};
+
+/** Read `cur-faq-debug`: `"true"` or `"console"` logs, `"overlay"` also outlines elements. */
+const readDebugAttr = (el: Element | null): DebugMode | null => {
+  const val = readAttr(el, ATTR.debug)?.toLowerCase();
+  if (val === undefined || val === 'false') return null;
+  return val === 'true' ? 'console' : readEnumAttr(el, ATTR.debug, DEBUG_MODES);
+};
+
+/** Read a BCP 47 language tag, returning it canonicalised or `null` if missing or invalid. */
+const readLocaleAttr = (el: Element | null, attr: string): string | null => {
+  const val = readAttr(el, attr);
+  if (val === null) return null;
+  const locale = canonicalLocale(val);
+  if (!locale) warn(`Ignoring ${attr}="${val}": not a valid language tag`);
+  return locale;
+};
+
+/** Read message overrides from the search element, then the root, over `base`. */
+const readMessageAttrs = (
+  searchEl: Element | null,
+  rootEl: Element | null,
+  base: Partial<FaqMessages>
+): Partial<FaqMessages> => {
+  const messages = { ...base };
+  (Object.keys(MESSAGE_ATTRS) as (keyof FaqMessages)[]).forEach((key) => {
+    const value = readAttr(searchEl, MESSAGE_ATTRS[key]) ?? readAttr(rootEl, MESSAGE_ATTRS[key]);
+    if (value !== null) messages[key] = value;
+  });
+  return messages;
+};
+
+/** Returned by option parsers for values that fail validation. */
+const INVALID = Symbol('invalid');
+
+/** Validate (and possibly normalise) a single option value. */
+type OptionParser = (value: unknown) => unknown;
+
 /**
- * Resolve the global FAQ configuration by reading attributes from the search element
- * and merging with defaults.
+ * Parser for every option key, mirroring the shape of the config it produces. Lists are
+ * parsed whole.
  */
-export const resolveConfig = (): FaqConfig => {
-  const searchEl = document.querySelector(`[${ATTR.element}="${ROLES.search}"]`);
+type OptionSchema<T> = {
+  [K in keyof T]-?: T[K] extends unknown[]
+    ? OptionParser
+    : T[K] extends object
+      ? OptionSchema<T[K]>
+      : OptionParser;
+};
+
+const parseBoolean: OptionParser = (value) => (typeof value === 'boolean' ? value : INVALID);
 
+const parseString: OptionParser = (value) =>
+  typeof value === 'string' && value.trim() ? value.trim() : INVALID;
+
+const parseEasing: OptionParser = (value) => {
+  const easing = parseString(value);
+  return easing !== INVALID && isEasing(easing as string) ? easing : INVALID;
+};
+
+const parseNullableString: OptionParser = (value) => (value === null ? null : parseString(value));
+
+const parseCallback: OptionParser = (value) =>
+  value === null || typeof value === 'function' ? value : INVALID;
+
+const parseDuration: OptionParser = (value) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : INVALID;
+
+const parseCount: OptionParser = (value) =>
+  Number.isInteger(value) && (value as number) >= 0 ? value : INVALID;
+
+const parseIndex: OptionParser = (value) =>
+  value === null || (Number.isInteger(value) && (value as number) >= 0) ? value : INVALID;
+
+const parseLocale: OptionParser = (value) => {
+  if (value === null) return null;
+  return (typeof value === 'string' && canonicalLocale(value)) || INVALID;
+};
+
+/** Parser accepting a plural message: a string, or forms by plural category with `other`. */
+const parsePluralMessage: OptionParser = (value) => {
+  if (typeof value === 'string') return parseString(value);
+  if (!isPlainObject(value) || typeof value.other !== 'string') return INVALID;
+  const forms = Object.entries(value);
+  const valid = forms.every(
+    ([category, form]) => PLURAL_CATEGORIES.includes(category) && typeof form === 'string'
+  );
+  return valid ? { ...value } : INVALID;
+};
+
+/** Parser accepting a list of values from `allowed`. */
+const parseListOf =
+  (allowed: readonly string[]): OptionParser =>
+  (value) =>
+    Array.isArray(value) && value.every((entry) => allowed.includes(entry)) ? [...value] : INVALID;
+
+/** Parser accepting one of `allowed` (or `null` when `nullable`). */
+const parseOneOf =
+  (allowed: readonly string[], nullable = false): OptionParser =>
+  (value) =>
+    (nullable && value === null) || allowed.includes(value as string) ? value : INVALID;
+
+const CONFIG_SCHEMA: OptionSchema<FaqConfig> = {
+  classes: {
+    activeClass: parseString,
+    highlightClass: parseString,
+    currentHighlightClass: parseString,
+  },
+  timing: {
+    collapseDuration: parseDuration,
+    easing: parseEasing,
+    iconTransitionDuration: parseDuration,
+    searchDebounce: parseDuration,
+    analyticsDebounce: parseDuration,
+    announceDebounce: parseDuration,
+  },
+  colors: {
+    highlightBackground: parseString,
+    currentHighlightBackground: parseString,
+  },
+  floatingSearch: parseBoolean,
+  floatingPosition: parseOneOf(FLOATING_POSITIONS),
+  deepLink: parseBoolean,
+  persist: parseOneOf(PERSIST_MODES, true),
+  jsonLd: parseBoolean,
+  searchMode: parseOneOf(SEARCH_MODES),
+  searchOperator: parseOneOf(SEARCH_OPERATORS),
+  searchFilter: parseBoolean,
+  suggestions: parseCount,
+  locale: parseLocale,
+  messages: {
+    searchPlaceholder: parseString,
+    searchLabel: parseString,
+    previousMatch: parseString,
+    nextMatch: parseString,
+    matchCounter: parseString,
+    closeSearch: parseString,
+    resultCount: parsePluralMessage,
+    matchPosition: parseString,
+    noResults: parseString,
+  },
+  tagMode: parseOneOf(TAG_MODES),
+  feedbackUrl: parseNullableString,
+  sendFeedback: parseCallback,
+  analytics: parseListOf(ANALYTICS_ADAPTERS),
+  trackEvent: parseCallback,
+  debug: parseOneOf(DEBUG_MODES, true),
+};
+
+const GROUP_SCHEMA: OptionSchema<FaqGroupConfig> = {
+  accordion: parseBoolean,
+  defaultOpen: parseIndex,
+  collapseDuration: parseDuration,
+  animation: parseOneOf(ANIMATION_STRATEGIES),
+  easing: parseEasing,
+  rovingTabindex: parseBoolean,
+};
+
+/** Whether a value is a plain object (not an array, element or `null`). */
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Deep-merge one layer of options over `base`. Unknown keys and invalid values are skipped
+ * with a warning, keeping the value from `base`.
+ */
+const mergeLayer = <T extends object>(
+  base: T,
+  options: unknown,
+  schema: OptionSchema<T>,
+  path: string
+): T => {
+  if (options === undefined) return base;
+  if (!isPlainObject(options)) {
+    warn(`Ignoring ${path || 'options'}: expected an object`);
+    return base;
+  }
+
+  const merged = { ...base } as Record<string, unknown>;
+  const rules = schema as Record<string, OptionParser | OptionSchema<object>>;
+
+  Object.entries(options).forEach(([key, value]) => {
+    const name = path ? `${path}.${key}` : key;
+    const rule = Object.prototype.hasOwnProperty.call(rules, key) ? rules[key] : undefined;
+
+    if (!rule) {
+      warn(`Ignoring unknown option "${name}"`);
+    } else if (typeof rule === 'function') {
+      const parsed = rule(value);
+      if (parsed === INVALID) warn(`Ignoring invalid value for "${name}": ${String(value)}`);
+      else merged[key] = parsed;
+    } else {
+      merged[key] = mergeLayer((merged[key] ?? {}) as object, value, rule, name);
+    }
+  });
+
+  return merged as T;
+};
+
+/**
+ * Merge layers of JS options, lowest precedence first, over the defaults. Returns the base
+ * configuration that HTML attributes are then read on top of, for the instance and its groups.
+ */
+export const resolveOptions = (
+  layers: (FaqOptions | undefined)[]
+): { config: FaqConfig; groups: FaqGroupConfig } => {
+  let config = DEFAULTS;
+  let groups: Partial<FaqGroupConfig> = {};
+
+  layers.forEach((layer) => {
+    if (layer === undefined) return;
+    if (!isPlainObject(layer)) {
+      warn('Ignoring options: expected an object');
+      return;
+    }
+    const { groups: groupOptions, ...configOptions } = layer as FaqOptions;
+    config = mergeLayer(config, configOptions, CONFIG_SCHEMA, '');
+    groups = mergeLayer(
+      groups,
+      groupOptions,
+      GROUP_SCHEMA as OptionSchema<typeof groups>,
+      'groups'
+    );
+  });
+
+  // Groups animate at the instance's collapse duration and easing unless told otherwise
+  return {
+    config,
+    groups: {
+      ...GROUP_DEFAULTS,
+      collapseDuration: config.timing.collapseDuration,
+      easing: config.timing.easing,
+      ...groups,
+    },
+  };
+};
+
+/**
+ * Resolve an instance's FAQ configuration by reading attributes from its search element
+ * (the first one on the page by default) over `base` — the defaults, or the result of
+ * `resolveOptions()`. `cur-faq-tag-mode`, `cur-faq-feedback-url`, `cur-faq-analytics`,
+ * `cur-faq-debug` and the `cur-faq-msg-*` messages may also be set on the instance root.
+ */
+export const resolveConfig = (
+  searchEl: Element | null = document.querySelector(`[${ATTR.element}="${ROLES.search}"]`),
+  base: FaqConfig = DEFAULTS,
+  rootEl: Element | null = null
+): FaqConfig => {
   return {
     classes: {
-      activeClass: readAttr(searchEl, ATTR.activeClass) ?? DEFAULTS.classes.activeClass,
-      highlightClass: readAttr(searchEl, ATTR.highlightClass) ?? DEFAULTS.classes.highlightClass,
+      activeClass: readAttr(searchEl, ATTR.activeClass) ?? base.classes.activeClass,
+      highlightClass: readAttr(searchEl, ATTR.highlightClass) ?? base.classes.highlightClass,
       currentHighlightClass:
-        readAttr(searchEl, ATTR.currentHighlightClass) ?? DEFAULTS.classes.currentHighlightClass,
+        readAttr(searchEl, ATTR.currentHighlightClass) ?? base.classes.currentHighlightClass,
     },
     timing: {
-      collapseDuration: DEFAULTS.timing.collapseDuration,
-      iconTransitionDuration: DEFAULTS.timing.iconTransitionDuration,
-      searchDebounce: readIntAttr(searchEl, ATTR.searchDebounce) ?? DEFAULTS.timing.searchDebounce,
+      collapseDuration: base.timing.collapseDuration,
+      easing: base.timing.easing,
+      iconTransitionDuration: base.timing.iconTransitionDuration,
+      searchDebounce: readIntAttr(searchEl, ATTR.searchDebounce) ?? base.timing.searchDebounce,
+      analyticsDebounce: base.timing.analyticsDebounce,
+      announceDebounce: base.timing.announceDebounce,
     },
     colors: {
-      highlightBackground: DEFAULTS.colors.highlightBackground,
-      currentHighlightBackground: DEFAULTS.colors.currentHighlightBackground,
+      highlightBackground: base.colors.highlightBackground,
+      currentHighlightBackground: base.colors.currentHighlightBackground,
     },
-    floatingSearch: readBoolAttr(searchEl, ATTR.floatingSearch) ?? DEFAULTS.floatingSearch,
+    floatingSearch: readBoolAttr(searchEl, ATTR.floatingSearch) ?? base.floatingSearch,
+    floatingPosition:
+      readEnumAttr(searchEl, ATTR.floatingPosition, FLOATING_POSITIONS) ?? base.floatingPosition,
+    deepLink: readBoolAttr(searchEl, ATTR.deepLink) ?? base.deepLink,
+    persist: readEnumAttr(searchEl, ATTR.persist, PERSIST_MODES) ?? base.persist,
+    jsonLd: readBoolAttr(searchEl, ATTR.jsonLd) ?? base.jsonLd,
+    searchMode: readEnumAttr(searchEl, ATTR.searchMode, SEARCH_MODES) ?? base.searchMode,
+    searchOperator:
+      readEnumAttr(searchEl, ATTR.searchOperator, SEARCH_OPERATORS) ?? base.searchOperator,
+    searchFilter: readBoolAttr(searchEl, ATTR.searchFilter) ?? base.searchFilter,
+    suggestions: Math.max(0, readIntAttr(searchEl, ATTR.suggestions) ?? base.suggestions),
+    locale:
+      readLocaleAttr(searchEl, ATTR.locale) ??
+      base.locale ??
+      readLocaleAttr(document.documentElement, 'lang'),
+    messages: readMessageAttrs(searchEl, rootEl, base.messages),
+    tagMode:
+      readEnumAttr(searchEl, ATTR.tagMode, TAG_MODES) ??
+      readEnumAttr(rootEl, ATTR.tagMode, TAG_MODES) ??
+      base.tagMode,
+    feedbackUrl:
+      readAttr(searchEl, ATTR.feedbackUrl) ??
+      readAttr(rootEl, ATTR.feedbackUrl) ??
+      base.feedbackUrl,
+    sendFeedback: base.sendFeedback,
+    analytics:
+      readListAttr(searchEl, ATTR.analytics, ANALYTICS_ADAPTERS) ??
+      readListAttr(rootEl, ATTR.analytics, ANALYTICS_ADAPTERS) ??
+      base.analytics,
+    trackEvent: base.trackEvent,
+    debug: readDebugAttr(searchEl) ?? readDebugAttr(rootEl) ?? base.debug,
   };
 };
 
 /**
- * Resolve per-group configuration by reading attributes from the group element.
- * Pass `null` for orphan items (no group wrapper) to get defaults.
+ * Resolve per-group configuration by reading attributes from the group element over `base`.
+ * Pass `null` for orphan items (no group wrapper) to get `base` unchanged.
  */
-export const resolveGroupConfig = (groupEl: HTMLElement | null): FaqGroupConfig => ({
-  accordion: readBoolAttr(groupEl, ATTR.accordion) ?? GROUP_DEFAULTS.accordion,
-  defaultOpen: readIntAttr(groupEl, ATTR.defaultOpen) ?? GROUP_DEFAULTS.defaultOpen,
-  collapseDuration: readIntAttr(groupEl, ATTR.collapseDuration) ?? GROUP_DEFAULTS.collapseDuration,
+export const resolveGroupConfig = (
+  groupEl: HTMLElement | null,
+  base: FaqGroupConfig = GROUP_DEFAULTS
+): FaqGroupConfig => ({
+  accordion: readBoolAttr(groupEl, ATTR.accordion) ?? base.accordion,
+  defaultOpen: readIntAttr(groupEl, ATTR.defaultOpen) ?? base.defaultOpen,
+  collapseDuration: readIntAttr(groupEl, ATTR.collapseDuration) ?? base.collapseDuration,
+  animation: readEnumAttr(groupEl, ATTR.animation, ANIMATION_STRATEGIES) ?? base.animation,
+  easing: readEasingAttr(groupEl, ATTR.easing) ?? base.easing,
+  rovingTabindex: readBoolAttr(groupEl, ATTR.rovingTabindex) ?? base.rovingTabindex,
 });
@@ -0,0 +1,160 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { ATTR, resolveGroupConfig, ROLES } from './config';
+import { auditFaq, type FaqIssue, renderOverlay, reportIssues } from './diagnostics';
+import type { FaqGroup } from './types';
+
+afterEach(() => {
+  document.body.innerHTML = '';
+  vi.restoreAllMocks();
+});
+
+const part = (role: string, text = '') => `<div ${ATTR.element}="${role}">${text}</div>`;
+
+const item = (inner = part(ROLES.trigger) + part(ROLES.content)) =>
+  `<div ${ATTR.element}="${ROLES.item}">${inner}</div>`;
+
+/** Parse groups the way the module does, enough for auditing. */
+const groupsOf = (root: HTMLElement): FaqGroup[] =>
+  Array.from(root.querySelectorAll<HTMLElement>(`[${ATTR.element}="${ROLES.group}"]`)).map(
+    (groupEl) => ({
+      groupEl,
+      config: resolveGroupConfig(groupEl),
+      items: Array.from(
+        groupEl.querySelectorAll<HTMLElement>(`[${ATTR.element}="${ROLES.item}"]`)
+      ).map((el) => ({
+        item: el,
+        trigger: el.querySelector<HTMLElement>(`[${ATTR.element}="${ROLES.trigger}"]`),
+        title: null,
+        content: el.querySelector<HTMLElement>(`[${ATTR.element}="${ROLES.content}"]`),
+        iconOpen: null,
+        iconClose: null,
+        slug: 'faq',
+        tags: [],
+        parent: null,
+        children: [],
+      })),
+    })
+  );
+
+const audit = (html: string): string[] => {
+  document.body.innerHTML = html;
+  return auditFaq(document.body, groupsOf(document.body)).map(({ message }) => message);
+};
+
+describe('auditFaq', () => {
+  it('finds nothing wrong with valid markup', () => {
+    expect(audit(`<div ${ATTR.element}="${ROLES.group}">${item()}${item()}</div>`)).toEqual([]);
+  });
+
+  it('reports items without a trigger or content', () => {
+    expect(
+      audit(`<div ${ATTR.element}="${ROLES.group}">${item(part(ROLES.content))}${item('')}</div>`)
+    ).toEqual([
+      'Item has no "trigger" element',
+      'Item has no "trigger" element',
+      'Item has no "content" element',
+    ]);
+  });
+
+  it('reports an out-of-range default-open index', () => {
+    expect(
+      audit(`<div ${ATTR.element}="${ROLES.group}" ${ATTR.defaultOpen}="3">${item()}</div>`)
+    ).toEqual([`${ATTR.defaultOpen}="3" is out of range: the group has 1 top-level item(s)`]);
+  });
+
+  it('reports unknown roles and stray item parts', () => {
+    expect(
+      audit(`
+        ${part('titel')}
+        ${part(ROLES.trigger)}
+        ${item(part(ROLES.trigger) + part(ROLES.content) + item())}
+      `)
+    ).toEqual([`Unknown ${ATTR.element}="titel"`, '"trigger" element is not inside an "item"']);
+  });
+
+  it('reports floating panel parts outside a floating panel', () => {
+    expect(
+      audit(`
+        ${part(ROLES.close)}
+        <div ${ATTR.element}="${ROLES.floatingPanel}">${part(ROLES.prev)}${part(ROLES.counter)}</div>
+      `)
+    ).toEqual(['"close" element is not inside a "floating-panel"']);
+  });
+
+  it('reports toggle-all controls covering only accordion groups', () => {
+    expect(
+      audit(`
+        <div ${ATTR.element}="${ROLES.group}" ${ATTR.accordion}="true">${part(ROLES.toggleAll)}${item()}</div>
+        <div ${ATTR.element}="${ROLES.group}">${part(ROLES.toggleAll)}${item()}</div>
+        ${part(ROLES.toggleAll)}
+      `)
+    ).toEqual(['"toggle-all" only covers accordion groups, so it is ignored: use "collapse-all"']);
+  });
+
+  it('reports boolean and integer attributes that are misread', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(
+      audit(`
+        <div ${ATTR.element}="${ROLES.group}" ${ATTR.accordion}="yes" ${ATTR.collapseDuration}="fast">
+          ${item()}
+        </div>
+      `)
+    ).toEqual([
+      `${ATTR.accordion}="yes" is read as false: use "true" or "false"`,
+      `${ATTR.collapseDuration}="fast" is ignored: expected a whole number`,
+    ]);
+  });
+
+  it('reports each duplicate id once', () => {
+    expect(audit(`<p id="x"></p><p id="x"></p><p id="x"></p>`)).toEqual([
+      'id="x" is used by 3 elements',
+    ]);
+  });
+
+  it('reports a search wrapper without an input', () => {
+    expect(audit(part(ROLES.search, '<textarea></textarea>'))).toEqual([
+      '"search" element has no text or search input',
+    ]);
+  });
+
+  it('only audits markup belonging to the instance', () => {
+    expect(audit(`<section ${ATTR.instance}="billing">${part('bogus')}</section>`)).toEqual([]);
+  });
+});
+
+describe('reportIssues', () => {
+  it('logs issues in a collapsed group with their elements', () => {
+    const group = vi.spyOn(console, 'groupCollapsed').mockImplementation(() => {});
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'groupEnd').mockImplementation(() => {});
+    const element = document.createElement('div');
+
+    reportIssues('billing', [{ element, message: 'Broken' }]);
+    expect(group).toHaveBeenCalledWith('[cur-faq] "billing": 1 configuration issue(s)');
+    expect(warn).toHaveBeenCalledWith('Broken', element);
+  });
+
+  it('confirms when there is nothing to report', () => {
+    const info = vi.spyOn(console, 'info').mockImplementation(() => {});
+    reportIssues('default', []);
+    expect(info).toHaveBeenCalledOnce();
+  });
+});
+
+describe('renderOverlay', () => {
+  it('outlines elements and lists issues until cleaned up', () => {
+    document.body.innerHTML = '<p></p>';
+    const element = document.querySelector<HTMLElement>('p')!;
+    const issues: FaqIssue[] = [{ element, message: 'Broken' }];
+
+    const cleanup = renderOverlay(issues, 'overlay');
+    const panel = document.getElementById('overlay')!;
+    expect(panel.querySelector('li')?.textContent).toBe('Broken');
+    expect(element.hasAttribute('data-faq-issue')).toBe(true);
+
+    cleanup();
+    expect(document.getElementById('overlay')).toBeNull();
+    expect(element.hasAttribute('data-faq-issue')).toBe(false);
+  });
+});
@@ -0,0 +1,229 @@
+/* eslint-disable no-console -- reporting to the console is this module's job */
+import { smoothScrollTo } from '$utils/helpers';
+
+import { ATTR, ROLES } from './config';
+import { queryScoped, queryScopedOne } from './scope';
+import { topLevelItems } from './tree';
+import type { FaqGroup } from './types';
+
+/** A configuration problem found in the markup, and the element it concerns. */
+export interface FaqIssue {
+  element: HTMLElement;
+  message: string;
+}
+
+/** Attributes read as booleans; anything but `"true"` silently means false. */
+const BOOLEAN_ATTRS = [
+  ATTR.floatingSearch,
+  ATTR.deepLink,
+  ATTR.jsonLd,
+  ATTR.searchFilter,
+  ATTR.accordion,
+  ATTR.rovingTabindex,
+];
+
+/** Attributes read as integers. */
+const INTEGER_ATTRS = [
+  ATTR.searchDebounce,
+  ATTR.suggestions,
+  ATTR.defaultOpen,
+  ATTR.collapseDuration,
+];
+
+/** Roles that only work inside an `item`. */
+const ITEM_PARTS: string[] = [
+  ROLES.trigger,
+  ROLES.title,
+  ROLES.content,
+  ROLES.iconOpen,
+  ROLES.iconClose,
+  ROLES.feedback,
+  ROLES.feedbackYes,
+  ROLES.feedbackNo,
+  ROLES.feedbackComment,
+  ROLES.feedbackSubmit,
+  ROLES.feedbackThanks,
+];
+
+/** Roles that only work inside a `floating-panel`. */
+const PANEL_PARTS: string[] = [ROLES.prev, ROLES.next, ROLES.input, ROLES.counter, ROLES.close];
+
+const KNOWN_ROLES = new Set<string>(Object.values(ROLES));
+
+const ITEM_SELECTOR = `[${ATTR.element}="${ROLES.item}"]`;
+const PANEL_SELECTOR = `[${ATTR.element}="${ROLES.floatingPanel}"]`;
+const TOGGLE_SELECTOR = `[${ATTR.element}="${ROLES.toggleAll}"]`;
+
+/** Problems with the item parts and group settings the module parsed. */
+const auditGroups = (groups: FaqGroup[]): FaqIssue[] =>
+  groups.flatMap((group) => {
+    const issues: FaqIssue[] = group.items.flatMap(({ item, trigger, content }) => [
+      ...(trigger ? [] : [{ element: item, message: 'Item has no "trigger" element' }]),
+      ...(content ? [] : [{ element: item, message: 'Item has no "content" element' }]),
+    ]);
+
+    const { defaultOpen } = group.config;
+    const { length } = topLevelItems(group);
+    if (defaultOpen !== null && (defaultOpen < 0 || defaultOpen >= length)) {
+      issues.push({
+        element: group.groupEl,
+        message: `${ATTR.defaultOpen}="${defaultOpen}" is out of range: the group has ${length} top-level item(s)`,
+      });
+    }
+    return issues;
+  });
+
+/**
+ * Problems with `cur-faq-element` values: unknown roles, and item, floating panel or
+ * toggle-all parts outside an item, panel or toggle-all.
+ */
+const auditRoles = (root: HTMLElement): FaqIssue[] =>
+  queryScoped(root, `[${ATTR.element}]`).flatMap((element) => {
+    const role = element.getAttribute(ATTR.element)?.trim() ?? '';
+    if (!KNOWN_ROLES.has(role)) {
+      return [{ element, message: `Unknown ${ATTR.element}="${role}"` }];
+    }
+    if (ITEM_PARTS.includes(role) && !element.closest(ITEM_SELECTOR)) {
+      return [{ element, message: `"${role}" element is not inside an "item"` }];
+    }
+    if (PANEL_PARTS.includes(role) && !element.closest(PANEL_SELECTOR)) {
+      return [{ element, message: `"${role}" element is not inside a "floating-panel"` }];
+    }
+    if (role === ROLES.toggleLabel && !element.closest(TOGGLE_SELECTOR)) {
+      return [{ element, message: `"${role}" element is not inside a "toggle-all"` }];
+    }
+    return [];
+  });
+
+/** Boolean and integer attributes whose values are silently ignored or misread. */
+const auditAttributeValues = (root: HTMLElement): FaqIssue[] => [
+  ...BOOLEAN_ATTRS.flatMap((attr) =>
+    queryScoped(root, `[${attr}]`).flatMap((element) => {
+      const value = element.getAttribute(attr)?.trim() ?? '';
+      return value === 'true' || value === 'false'
+        ? []
+        : [{ element, message: `${attr}="${value}" is read as false: use "true" or "false"` }];
+    })
+  ),
+  ...INTEGER_ATTRS.flatMap((attr) =>
+    queryScoped(root, `[${attr}]`).flatMap((element) => {
+      const value = element.getAttribute(attr)?.trim() ?? '';
+      return /^-?\d+$/.test(value)
+        ? []
+        : [{ element, message: `${attr}="${value}" is ignored: expected a whole number` }];
+    })
+  ),
+];
+
+/** Elements sharing an `id`, which breaks `aria-controls` and `aria-labelledby` links. */
+const auditDuplicateIds = (root: HTMLElement): FaqIssue[] => {
+  const counts = new Map<string, number>();
+  document.querySelectorAll('[id]').forEach(({ id }) => counts.set(id, (counts.get(id) ?? 0) + 1));
+
+  const reported = new Set<string>();
+  return queryScoped(root, '[id]').flatMap((element) => {
+    const { id } = element;
+    if ((counts.get(id) ?? 0) < 2 || reported.has(id)) return [];
+    reported.add(id);
+    return [{ element, message: `id="${id}" is used by ${counts.get(id)} elements` }];
+  });
+};
+
+/**
+ * Toggle-all controls covering only accordion groups, which can't be expanded all at once.
+ * The module leaves them unbound.
+ */
+const auditToggleAll = (root: HTMLElement, groups: FaqGroup[]): FaqIssue[] =>
+  queryScoped(root, `[${ATTR.element}="${ROLES.toggleAll}"]`).flatMap((element) => {
+    const groupEl = element.closest(`[${ATTR.element}="${ROLES.group}"]`);
+    const scope = groupEl ? groups.filter((g) => g.groupEl === groupEl) : groups;
+    return scope.some((g) => !g.config.accordion)
+      ? []
+      : [
+          {
+            element,
+            message: `"toggle-all" only covers accordion groups, so it is ignored: use "collapse-all"`,
+          },
+        ];
+  });
+
+/** A search element that neither is nor contains a text input. */
+const auditSearch = (root: HTMLElement): FaqIssue[] => {
+  const searchEl = queryScopedOne(root, `[${ATTR.element}="${ROLES.search}"]`);
+  if (
+    !searchEl ||
+    searchEl.tagName === 'INPUT' ||
+    searchEl.querySelector('input[type="search"], input[type="text"]')
+  ) {
+    return [];
+  }
+  return [{ element: searchEl, message: '"search" element has no text or search input' }];
+};
+
+/** Audit an instance's markup for configuration problems. */
+export const auditFaq = (root: HTMLElement, groups: FaqGroup[]): FaqIssue[] => [
+  ...auditRoles(root),
+  ...auditGroups(groups),
+  ...auditAttributeValues(root),
+  ...auditDuplicateIds(root),
+  ...auditSearch(root),
+  ...auditToggleAll(root, groups),
+];
+
+/** Log issues as one collapsed console group per instance. */
+export const reportIssues = (name: string, issues: FaqIssue[]): void => {
+  if (!issues.length) {
+    console.info(`[cur-faq] "${name}": no configuration issues found`);
+    return;
+  }
+  console.groupCollapsed(`[cur-faq] "${name}": ${issues.length} configuration issue(s)`);
+  issues.forEach(({ element, message }) => console.warn(message, element));
+  console.groupEnd();
+};
+
+/** Attribute marking elements outlined by the overlay. */
+const ISSUE_ATTR = 'data-faq-issue';
+
+/**
+ * Outline the elements with issues and list the issues in a fixed panel; clicking an entry
+ * scrolls to its element. Returns a cleanup function.
+ */
+export const renderOverlay = (issues: FaqIssue[], id: string): (() => void) => {
+  document.getElementById(id)?.remove();
+
+  const panel = document.createElement('div');
+  panel.id = id;
+  panel.setAttribute('role', 'complementary');
+  panel.setAttribute('aria-label', 'FAQ configuration issues');
+
+  const style = document.createElement('style');
+  style.textContent = `[${ISSUE_ATTR}] { outline: 2px dashed #e5484d !important; outline-offset: 2px; }
+#${id} { position: fixed; left: 16px; bottom: 16px; z-index: 2147483647; max-width: 360px;
+  max-height: 40vh; overflow: auto; padding: 8px 12px; border-radius: 8px; background: #1c1c1c;
+  color: #fff; font: 12px/1.4 system-ui, sans-serif; box-shadow: 0 4px 12px rgba(0,0,0,.2); }
+#${id} ul { margin: 4px 0 0; padding: 0 0 0 16px; }
+#${id} button { all: unset; cursor: pointer; text-decoration: underline dotted; }`;
+
+  const heading = document.createElement('strong');
+  heading.textContent = `cur-faq: ${issues.length} configuration issue(s)`;
+
+  const list = document.createElement('ul');
+  issues.forEach(({ element, message }) => {
+    element.setAttribute(ISSUE_ATTR, '');
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = message;
+    button.addEventListener('click', () => smoothScrollTo(element));
+    const entry = document.createElement('li');
+    entry.appendChild(button);
+    list.appendChild(entry);
+  });
+
+  panel.append(style, heading, list);
+  document.body.appendChild(panel);
+
+  return () => {
+    issues.forEach(({ element }) => element.removeAttribute(ISSUE_ATTR));
+    panel.remove();
+  };
+};
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createFeedbackSender, feedbackKey, loadVotes, saveVotes } from './feedback';
+import { createMemoryStorage } from './persistence';
+import type { FaqFeedback } from './types';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const FEEDBACK: FaqFeedback = {
+  instance: 'default',
+  slug: 'refunds',
+  question: 'How do refunds work?',
+  helpful: true,
+  comment: '',
+  page: '/help',
+};
+
+describe('feedbackKey', () => {
+  it('keys votes by page path and instance', () => {
+    expect(feedbackKey('/help')).toBe('cur-faq-feedback:/help');
+    expect(feedbackKey('/help', 'billing')).toBe('cur-faq-feedback:/help#billing');
+  });
+});
+
+describe('saveVotes / loadVotes', () => {
+  it('round-trips the votes for a page', () => {
+    const storage = createMemoryStorage();
+    saveVotes(storage, { refunds: true, shipping: false }, 'page');
+    expect(loadVotes(storage, 'page')).toEqual({ refunds: true, shipping: false });
+  });
+
+  it('ignores missing, corrupt and invalid entries', () => {
+    const storage = createMemoryStorage();
+    expect(loadVotes(storage, 'page')).toEqual({});
+    storage.setItem('page', '{nope');
+    expect(loadVotes(storage, 'page')).toEqual({});
+    storage.setItem('page', '{"refunds":"yes","shipping":false}');
+    expect(loadVotes(storage, 'page')).toEqual({ shipping: false });
+  });
+});
+
+describe('createFeedbackSender', () => {
+  it('prefers the callback over the URL', () => {
+    const sendFeedback = vi.fn();
+    expect(createFeedbackSender({ feedbackUrl: '/feedback', sendFeedback })).toBe(sendFeedback);
+  });
+
+  it('beacons the feedback as JSON to the URL', () => {
+    const sendBeacon = vi.fn(() => true);
+    vi.stubGlobal('navigator', { sendBeacon });
+    createFeedbackSender({ feedbackUrl: '/feedback', sendFeedback: null })!(FEEDBACK);
+    expect(sendBeacon).toHaveBeenCalledWith('/feedback', JSON.stringify(FEEDBACK));
+  });
+
+  it('sends nothing without a URL or callback', () => {
+    expect(createFeedbackSender({ feedbackUrl: null, sendFeedback: null })).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import type { FaqStorage } from './persistence';
+import type { FaqConfig, FaqFeedback } from './types';
+
+/** Votes cast on a page, by item slug: `true` for helpful. */
+export type FeedbackVotes = Record<string, boolean>;
+
+/** Prefix for feedback storage keys; the page path is appended. */
+const KEY_PREFIX = 'cur-faq-feedback:';
+
+/**
+ * Storage key for the votes cast on a page. Named FAQ instances on the same page get their
+ * own key (`cur-faq-feedback:/help#billing`).
+ */
+export const feedbackKey = (path: string = window.location.pathname, instance?: string): string =>
+  instance ? `${KEY_PREFIX}${path}#${instance}` : `${KEY_PREFIX}${path}`;
+
+/** Read the votes cast on a page, ignoring anything unreadable. */
+export const loadVotes = (storage: FaqStorage, key: string = feedbackKey()): FeedbackVotes => {
+  try {
+    const parsed: unknown = JSON.parse(storage.getItem(key) ?? '{}');
+    if (!parsed || typeof parsed !== 'object') return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, helpful]) => typeof helpful === 'boolean')
+    );
+  } catch {
+    return {};
+  }
+};
+
+/** Write the votes cast on a page. Storage errors (e.g. quota exceeded) are ignored. */
+export const saveVotes = (
+  storage: FaqStorage,
+  votes: FeedbackVotes,
+  key: string = feedbackKey()
+): void => {
+  try {
+    storage.setItem(key, JSON.stringify(votes));
+  } catch {
+    // The one-vote guard is best-effort
+  }
+};
+
+/**
+ * How feedback leaves the page: the `sendFeedback` callback when set, otherwise a beacon
+ * posting the feedback as JSON to `feedbackUrl`. `null` when neither is configured, in which
+ * case feedback is only announced with `cur-faq:feedback` events.
+ */
+export const createFeedbackSender = (
+  config: Pick<FaqConfig, 'feedbackUrl' | 'sendFeedback'>
+): ((feedback: FaqFeedback) => void) | null => {
+  const { feedbackUrl, sendFeedback } = config;
+  if (sendFeedback) return sendFeedback;
+  if (!feedbackUrl) return null;
+  // A string body is sent as text/plain, which needs no CORS preflight
+  return (feedback) => {
+    navigator.sendBeacon?.(feedbackUrl, JSON.stringify(feedback));
+  };
+};
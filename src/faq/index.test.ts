@@ -22,10 +22,13 @@ const faqGroup = (items: string, attrs = '') =>
 
 /** Reset global state between tests. */
 const resetGlobals = () => {
-  window.__curFaqInitialized = false;
-  delete window.__curFaq;
+  delete window.curFaq;
+  delete window.curFaqConfig;
   document.body.innerHTML = '';
-  document.head.querySelectorAll('style').forEach((s) => s.remove());
+  document.head.querySelectorAll('style, script').forEach((s) => s.remove());
+  window.history.replaceState(null, '', '/');
+  window.sessionStorage.clear();
+  window.localStorage.clear();
 };
 
 describe('FAQ module integration', () => {
@@ -35,27 +38,27 @@ describe('FAQ module integration', () => {
   });
 
   afterEach(() => {
-    window.__curFaq?.destroy();
+    window.curFaq?.all().forEach((faq) => faq.destroy());
     resetGlobals();
   });
 
   const initModule = async () => {
     // vi.resetModules() busts the cache so the module re-executes onDomReady(initFaq)
-    await import('./index');
+    return import('./index');
   };
 
   describe('initialisation', () => {
-    it('initialises and exposes window.__curFaq', async () => {
+    it('initialises and exposes window.curFaq', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
       await initModule();
-      expect(window.__curFaq).toBeDefined();
-      expect(window.__curFaqInitialized).toBe(true);
+      expect(window.curFaq).toBeDefined();
+      expect(window.curFaq!.get()?.name).toBe('default');
     });
 
     it('parses all items from the DOM', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1') + faqItem('Q2', 'A2'));
       await initModule();
-      expect(window.__curFaq!.items).toHaveLength(2);
+      expect(window.curFaq!.get()!.items).toHaveLength(2);
     });
 
     it('starts all items in closed state', async () => {
@@ -137,8 +140,8 @@ describe('FAQ module integration', () => {
       document.body.innerHTML =
         faqItem('Orphan Q1', 'Orphan A1') + faqItem('Orphan Q2', 'Orphan A2');
       await initModule();
-      expect(window.__curFaq).toBeDefined();
-      expect(window.__curFaq!.items).toHaveLength(2);
+      expect(window.curFaq!.get()).toBeDefined();
+      expect(window.curFaq!.get()!.items).toHaveLength(2);
     });
 
     it('starts orphan items in closed state', async () => {
@@ -152,7 +155,7 @@ describe('FAQ module integration', () => {
       document.body.innerHTML =
         faqGroup(faqItem('Grouped', 'In group')) + faqItem('Orphan', 'No group');
       await initModule();
-      expect(window.__curFaq!.items).toHaveLength(2);
+      expect(window.curFaq!.get()!.items).toHaveLength(2);
     });
   });
 
@@ -160,7 +163,7 @@ describe('FAQ module integration', () => {
     it('open() opens an item', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
       faq.open(faq.items[0]);
       expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('true');
     });
@@ -168,7 +171,7 @@ describe('FAQ module integration', () => {
     it('close() closes an item', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
       faq.open(faq.items[0]);
       faq.close(faq.items[0]);
       expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('false');
@@ -177,23 +180,292 @@ describe('FAQ module integration', () => {
     it('toggle() toggles an item', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
       faq.toggle(faq.items[0]);
       expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('true');
       faq.toggle(faq.items[0]);
       expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('false');
     });
 
+    it('addresses items by index, slug or element', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1') + faqItem('Q2', 'A2'));
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const [first, second] = faq.items;
+      faq.open(1);
+      expect(second.item.getAttribute('data-faq-open')).toBe('true');
+      faq.close(second.slug);
+      expect(second.item.getAttribute('data-faq-open')).toBe('false');
+      faq.toggle(first.trigger!);
+      expect(first.item.getAttribute('data-faq-open')).toBe('true');
+      await expect(faq.open(5)).resolves.toBeUndefined();
+      await expect(faq.open('missing')).resolves.toBeUndefined();
+    });
+
+    it('resolves once the animation has finished', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'), `${ATTR.animation}="height"`);
+      await initModule();
+      vi.useFakeTimers();
+      const faq = window.curFaq!.get()!;
+      const { content } = faq.items[0];
+      const done = vi.fn();
+      faq.open(0).then(done);
+      await Promise.resolve();
+      expect(done).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(300);
+      expect(done).toHaveBeenCalled();
+      expect(content!.style.height).toBe('auto');
+      vi.useRealTimers();
+    });
+
+    it('resolves at once when nothing changes', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const handler = vi.fn();
+      document.addEventListener('cur-faq:close', handler);
+      await faq.close(0);
+      expect(handler).not.toHaveBeenCalled();
+      document.removeEventListener('cur-faq:close', handler);
+    });
+
     it('config reflects resolved settings', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
       await initModule();
-      const { config } = window.__curFaq!;
+      const { config } = window.curFaq!.get()!;
       expect(config.classes.activeClass).toBe('is-active');
       expect(config.timing.collapseDuration).toBe(250);
       expect(config.floatingSearch).toBe(false);
     });
   });
 
+  describe('find in page', () => {
+    it('opens an item when the browser finds a match in its content', async () => {
+      document.body.innerHTML = faqGroup(
+        faqItem('Q1', 'A1') + faqItem('Q2', 'A2'),
+        `${ATTR.accordion}="true"`
+      );
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const [first, second] = faq.items;
+      faq.open(0);
+
+      second.content!.dispatchEvent(new Event('beforematch', { bubbles: true }));
+      expect(second.item.getAttribute('data-faq-open')).toBe('true');
+      expect(second.trigger!.getAttribute('aria-expanded')).toBe('true');
+      expect(first.item.getAttribute('data-faq-open')).toBe('false');
+    });
+
+    it('hides the content again when cur-faq:beforeopen is cancelled', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
+      await initModule();
+      vi.useFakeTimers();
+      const { item, content } = window.curFaq!.get()!.items[0];
+      item.addEventListener('cur-faq:beforeopen', (e) => e.preventDefault());
+
+      content!.dispatchEvent(new Event('beforematch', { bubbles: true }));
+      // The browser reveals the match after the event
+      content!.removeAttribute('hidden');
+      vi.runAllTimers();
+      expect(content!.hasAttribute('hidden')).toBe(true);
+      expect(item.getAttribute('data-faq-open')).toBe('false');
+      vi.useRealTimers();
+    });
+  });
+
+  describe('messages', () => {
+    const panelSearch = () => `
+      <input type="search" ${ATTR.element}="${ROLES.search}" ${ATTR.floatingSearch}="true" />
+      ${faqGroup(faqItem('Password reset', 'Reset your password.'))}
+    `;
+
+    it('labels the floating panel in the language of the page', async () => {
+      document.documentElement.lang = 'fr-FR';
+      document.body.innerHTML = panelSearch();
+      await initModule();
+      const panel = document.querySelector('.cur-faq-floating-search')!;
+      expect(panel.querySelector('input')!.placeholder).toBe('Rechercher dans la FAQ…');
+      expect(panel.querySelector('button')!.getAttribute('aria-label')).toBe('Résultat précédent');
+      document.documentElement.removeAttribute('lang');
+    });
+
+    it('takes message overrides from attributes and JS options', async () => {
+      document.body.innerHTML = panelSearch();
+      const search = document.querySelector('input')!;
+      search.setAttribute('cur-faq-msg-match-counter', 'Match {current} of {total}');
+      window.curFaqConfig = { messages: { searchPlaceholder: 'Ask a question' } };
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('password');
+      const panel = document.querySelector('.cur-faq-floating-search')!;
+      expect(panel.querySelector('input')!.placeholder).toBe('Ask a question');
+      expect(panel.querySelector('.counter')!.textContent).toBe('Match 1 of 2');
+    });
+  });
+
+  describe('floating panel', () => {
+    const panelPage = (searchAttrs = '', extra = '') => `
+      <input type="search" ${ATTR.element}="${ROLES.search}" ${ATTR.floatingSearch}="true" ${searchAttrs} />
+      ${extra}
+      ${faqGroup(faqItem('Password reset', 'Reset your password.'))}
+    `;
+
+    const panelTemplate = `
+      <div ${ATTR.element}="${ROLES.floatingPanel}" class="my-panel" style="display: grid">
+        <a href="#" ${ATTR.element}="${ROLES.prev}"><svg></svg></a>
+        <a href="#" ${ATTR.element}="${ROLES.next}">Next</a>
+        <div ${ATTR.element}="${ROLES.input}"><input type="text" /></div>
+        <span ${ATTR.element}="${ROLES.counter}">0/0</span>
+        <button type="button" ${ATTR.element}="${ROLES.close}">Close</button>
+      </div>
+    `;
+
+    it('positions the built-in panel and themes it with custom properties', async () => {
+      document.body.innerHTML = panelPage(`${ATTR.floatingPosition}="top-left"`);
+      await initModule();
+      const panel = document.querySelector<HTMLElement>('.cur-faq-floating-search')!;
+      expect(panel.getAttribute('data-faq-position')).toBe('top-left');
+      expect(panel.parentElement).toBe(document.body);
+
+      const css = document.getElementById('cur-faq-styles')!.textContent!;
+      expect(css).toContain('background: var(--cur-faq-panel-bg, #461276)');
+      expect(css).toContain('[data-faq-position="top-left"]');
+    });
+
+    it('docks the built-in panel after the search input', async () => {
+      document.body.innerHTML = panelPage(`${ATTR.floatingPosition}="docked"`);
+      await initModule();
+      const search = document.querySelector(`[${ATTR.element}="${ROLES.search}"]`)!;
+      expect(search.nextElementSibling!.classList.contains('cur-faq-floating-search')).toBe(true);
+    });
+
+    it('clears the search and hides the panel from its close button', async () => {
+      document.body.innerHTML = panelPage();
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const search = document.querySelector<HTMLInputElement>('input')!;
+      const panel = document.querySelector<HTMLElement>('.cur-faq-floating-search')!;
+      search.value = 'password';
+      faq.search('password');
+      panel.style.display = 'flex';
+
+      const close = panel.querySelector<HTMLElement>('button[aria-label="Close search"]')!;
+      close.click();
+      expect(panel.style.display).toBe('none');
+      expect(search.value).toBe('');
+      expect(document.querySelectorAll('mark')).toHaveLength(0);
+      expect(document.activeElement).toBe(search);
+    });
+
+    it('uses a floating-panel template in place and wires its parts', async () => {
+      document.body.innerHTML = panelPage('', panelTemplate);
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const panel = document.querySelector<HTMLElement>('.my-panel')!;
+      const part = (role: string) =>
+        panel.querySelector<HTMLElement>(`[${ATTR.element}="${role}"]`)!;
+      expect(document.querySelector('.cur-faq-floating-search')).toBeNull();
+      expect(panel.style.display).toBe('none');
+      expect(panel.getAttribute('data-faq-position')).toBe('bottom-right');
+      expect(part(ROLES.prev).getAttribute('aria-label')).toBe('Previous match');
+      expect(part(ROLES.next).hasAttribute('aria-label')).toBe(false);
+      expect(panel.querySelector('input')!.placeholder).toBe('Search FAQ…');
+
+      vi.useFakeTimers();
+      const search = document.querySelector<HTMLInputElement>('input')!;
+      search.value = 'password';
+      search.dispatchEvent(new Event('input'));
+      vi.advanceTimersByTime(faq.config.timing.searchDebounce);
+      vi.useRealTimers();
+      expect(panel.style.display).toBe('grid');
+      expect(panel.querySelector('input')!.value).toBe('password');
+      expect(part(ROLES.counter).textContent).toBe('1/2');
+
+      part(ROLES.next).click();
+      expect(part(ROLES.counter).textContent).toBe('2/2');
+      part(ROLES.close).click();
+      expect(panel.style.display).toBe('none');
+      expect(search.value).toBe('');
+    });
+
+    it('puts a floating-panel template back on destroy', async () => {
+      document.body.innerHTML = panelPage('', panelTemplate);
+      await initModule();
+      window.curFaq!.get()!.destroy();
+      const panel = document.querySelector<HTMLElement>('.my-panel')!;
+      expect(panel.isConnected).toBe(true);
+      expect(panel.style.display).toBe('grid');
+      expect(panel.hasAttribute('data-faq-position')).toBe(false);
+      expect(panel.querySelector(`[${ATTR.element}="${ROLES.prev}"]`)!.hasAttribute('role')).toBe(
+        false
+      );
+      expect(panel.querySelector(`[${ATTR.element}="${ROLES.counter}"]`)!.textContent).toBe('0/0');
+    });
+  });
+
+  describe('live announcements', () => {
+    it('announces search results in a polite live region removed on destroy', async () => {
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" />
+        ${faqGroup(faqItem('Password reset', 'Reset your password.'))}
+      `;
+      await initModule();
+      vi.useFakeTimers();
+      const faq = window.curFaq!.get()!;
+      const region = document.querySelector<HTMLElement>('[aria-live="polite"]')!;
+      expect(region.getAttribute('role')).toBe('status');
+
+      // One question holding two matches: the count is of questions, the position of matches
+      faq.search('password');
+      vi.advanceTimersByTime(500);
+      expect(region.textContent).toBe('1 result');
+      faq.nextMatch();
+      vi.advanceTimersByTime(500);
+      expect(region.textContent).toBe('Match 2 of 2');
+      faq.nextMatch();
+      vi.advanceTimersByTime(500);
+      expect(region.textContent).toBe('Match 1 of 2');
+
+      faq.destroy();
+      expect(region.isConnected).toBe(false);
+      vi.useRealTimers();
+    });
+  });
+
+  describe('print mode', () => {
+    it('prints every answer and restores the search afterwards', async () => {
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" />
+        ${faqGroup(faqItem('Password reset', 'Reset your password.') + faqItem('Billing', 'Invoices'))}
+      `;
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('password');
+      faq.nextMatch();
+      const [matched, other] = faq.items;
+      const current = document.querySelector('mark.faq-search-current');
+      expect(current).not.toBeNull();
+
+      window.dispatchEvent(new Event('beforeprint'));
+      expect(other.content!.hasAttribute('hidden')).toBe(false);
+      expect(document.querySelectorAll('mark')).toHaveLength(0);
+      expect(other.item.getAttribute('data-faq-open')).toBe('false');
+
+      window.dispatchEvent(new Event('afterprint'));
+      expect(other.content!.hasAttribute('hidden')).toBe(true);
+      expect(matched.content!.hasAttribute('hidden')).toBe(false);
+      expect(document.querySelector('mark.faq-search-current')).toBe(current);
+    });
+
+    it('injects print styles hiding the icons', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
+      await initModule();
+      const css = document.getElementById('cur-faq-styles')!.textContent!;
+      expect(css).toContain('@media print');
+      expect(css).toMatch(/\[cur-faq-element="icon-open"\],[^}]*display: none !important/);
+    });
+  });
+
   describe('accordion mode', () => {
     it('closes siblings when opening an item in accordion mode', async () => {
       document.body.innerHTML = faqGroup(
@@ -201,7 +473,7 @@ describe('FAQ module integration', () => {
         `${ATTR.accordion}="true"`
       );
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
 
       faq.open(faq.items[0]);
       expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('true');
@@ -214,7 +486,7 @@ describe('FAQ module integration', () => {
     it('allows multiple open items when accordion is off', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1') + faqItem('Q2', 'A2'));
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
 
       faq.open(faq.items[0]);
       faq.open(faq.items[1]);
@@ -227,7 +499,7 @@ describe('FAQ module integration', () => {
         faqGroup(faqItem('G1-Q1', 'A') + faqItem('G1-Q2', 'A'), `${ATTR.accordion}="true"`) +
         faqGroup(faqItem('G2-Q1', 'A') + faqItem('G2-Q2', 'A'));
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
 
       // Open items in both groups
       faq.open(faq.items[0]); // G1-Q1
@@ -247,7 +519,7 @@ describe('FAQ module integration', () => {
     it('toggles the active class on open/close', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
       const itemEl = faq.items[0].item;
 
       expect(itemEl.classList.contains('is-active')).toBe(false);
@@ -263,7 +535,7 @@ describe('FAQ module integration', () => {
         ${faqGroup(faqItem('Q1', 'A1'))}
       `;
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
       faq.open(faq.items[0]);
       expect(faq.items[0].item.classList.contains('faq-open')).toBe(true);
     });
@@ -282,7 +554,7 @@ describe('FAQ module integration', () => {
     it('swaps icon visibility when item opens', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
       faq.open(faq.items[0]);
       const iconOpen = document.querySelector(`[${ATTR.element}="${ROLES.iconOpen}"]`)!;
       const iconClose = document.querySelector(`[${ATTR.element}="${ROLES.iconClose}"]`)!;
@@ -295,7 +567,7 @@ describe('FAQ module integration', () => {
     it('dispatches cur-faq:open when an item opens', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
 
       const handler = vi.fn();
       document.addEventListener('cur-faq:open', handler);
@@ -304,10 +576,47 @@ describe('FAQ module integration', () => {
       document.removeEventListener('cur-faq:open', handler);
     });
 
+    it('dispatches before and after events around the animation', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'), `${ATTR.animation}="none"`);
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const types: string[] = [];
+      const record = (e: Event) => types.push(e.type);
+      const eventTypes = ['beforeopen', 'open', 'afteropen', 'beforeclose', 'close', 'afterclose'];
+      eventTypes.forEach((type) => document.addEventListener(`cur-faq:${type}`, record));
+
+      await faq.open(0);
+      await faq.close(0);
+      expect(types).toEqual(eventTypes.map((type) => `cur-faq:${type}`));
+      eventTypes.forEach((type) => document.removeEventListener(`cur-faq:${type}`, record));
+    });
+
+    it('lets cur-faq:beforeopen and beforeclose listeners cancel the change', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const { item, trigger } = faq.items[0];
+      const cancel = (e: Event) => e.preventDefault();
+
+      item.addEventListener('cur-faq:beforeopen', cancel);
+      const opened = vi.fn();
+      item.addEventListener('cur-faq:open', opened);
+      await faq.open(0);
+      trigger!.click();
+      expect(item.getAttribute('data-faq-open')).toBe('false');
+      expect(opened).not.toHaveBeenCalled();
+      item.removeEventListener('cur-faq:beforeopen', cancel);
+
+      faq.open(0);
+      item.addEventListener('cur-faq:beforeclose', cancel);
+      trigger!.click();
+      expect(item.getAttribute('data-faq-open')).toBe('true');
+    });
+
     it('dispatches cur-faq:close when an item closes', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
 
       faq.open(faq.items[0]);
       const handler = vi.fn();
@@ -319,6 +628,23 @@ describe('FAQ module integration', () => {
   });
 
   describe('empty state', () => {
+    it('stays hidden when items match without highlights', async () => {
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" />
+        <div ${ATTR.element}="${ROLES.emptyState}">No results</div>
+        ${faqGroup(faqItem('Returns', '<b>Refund</b> policy'))}
+      `;
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('"refund policy"');
+      expect(document.querySelectorAll('mark')).toHaveLength(0);
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('true');
+      const emptyState = document.querySelector<HTMLElement>(
+        `[${ATTR.element}="${ROLES.emptyState}"]`
+      )!;
+      expect(emptyState.style.display).toBe('none');
+    });
+
     it('shows empty state element when search has no matches', async () => {
       document.body.innerHTML = `
         <input type="search" ${ATTR.element}="${ROLES.search}" />
@@ -326,7 +652,7 @@ describe('FAQ module integration', () => {
         ${faqGroup(faqItem('Apples', 'Red fruit'))}
       `;
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
       const emptyState = document.querySelector(
         `[${ATTR.element}="${ROLES.emptyState}"]`
       ) as HTMLElement;
@@ -335,6 +661,21 @@ describe('FAQ module integration', () => {
       expect(emptyState.style.display).not.toBe('none');
     });
 
+    it('fills an empty empty-state element with the localised message', async () => {
+      document.documentElement.lang = 'de';
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" />
+        <div ${ATTR.element}="${ROLES.emptyState}"></div>
+        ${faqGroup(faqItem('Apples', 'Red fruit'))}
+      `;
+      await initModule();
+      const emptyState = document.querySelector(`[${ATTR.element}="${ROLES.emptyState}"]`)!;
+      expect(emptyState.textContent).toBe('Keine Ergebnisse gefunden');
+      window.curFaq!.get()!.destroy();
+      expect(emptyState.textContent).toBe('');
+      document.documentElement.removeAttribute('lang');
+    });
+
     it('hides empty state when search is cleared', async () => {
       document.body.innerHTML = `
         <input type="search" ${ATTR.element}="${ROLES.search}" />
@@ -342,7 +683,7 @@ describe('FAQ module integration', () => {
         ${faqGroup(faqItem('Apples', 'Red fruit'))}
       `;
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
       const emptyState = document.querySelector(
         `[${ATTR.element}="${ROLES.emptyState}"]`
       ) as HTMLElement;
@@ -360,7 +701,7 @@ describe('FAQ module integration', () => {
         ${faqGroup(faqItem('Password reset', 'Go to settings to reset your password.'))}
       `;
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
       faq.search('password');
       const marks = document.querySelectorAll('mark.faq-search-highlight');
       expect(marks.length).toBeGreaterThan(0);
@@ -372,7 +713,7 @@ describe('FAQ module integration', () => {
         ${faqGroup(faqItem('Password reset', 'Reset instructions') + faqItem('Billing', 'Payment info'))}
       `;
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
       faq.search('password');
 
       expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('true');
@@ -385,7 +726,7 @@ describe('FAQ module integration', () => {
         ${faqGroup(faqItem('Password reset', 'Reset instructions'))}
       `;
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
       faq.search('password');
       faq.clearSearch();
 
@@ -395,18 +736,1718 @@ describe('FAQ module integration', () => {
     });
   });
 
+  describe('fuzzy search', () => {
+    const fuzzyPage = (items: string) => `
+      <input type="search" ${ATTR.element}="${ROLES.search}" ${ATTR.searchMode}="fuzzy" />
+      ${faqGroup(items)}
+    `;
+
+    it('matches misspelled queries and highlights the approximate words', async () => {
+      document.body.innerHTML = fuzzyPage(
+        faqItem('Refund policy', 'How refunds work') + faqItem('Shipping', 'Delivery times')
+      );
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('refnd');
+
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('true');
+      expect(faq.items[1].item.getAttribute('data-faq-open')).toBe('false');
+      const marks = Array.from(document.querySelectorAll('mark.faq-search-highlight'));
+      expect(marks.map((m) => m.textContent)).toEqual(['Refund', 'refunds']);
+    });
+
+    it('keeps exact matching by default', async () => {
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" />
+        ${faqGroup(faqItem('Refund policy', 'How refunds work'))}
+      `;
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('refnd');
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('false');
+    });
+
+    it('reports ranked scores in the search event', async () => {
+      document.body.innerHTML = fuzzyPage(
+        faqItem('Shopping cart', 'Saving items') + faqItem('Shipping', 'Delivery times')
+      );
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const handler = vi.fn();
+      document.addEventListener('cur-faq:search', handler);
+      faq.search('shiping');
+      document.removeEventListener('cur-faq:search', handler);
+
+      const { results } = handler.mock.calls[0][0].detail;
+      expect(results.map((r: { item: HTMLElement }) => r.item)).toEqual([
+        faq.items[1].item,
+        faq.items[0].item,
+      ]);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+    });
+  });
+
+  describe('query parsing', () => {
+    const page = (items: string, attrs = '') => `
+      <input type="search" ${ATTR.element}="${ROLES.search}" ${attrs} />
+      ${faqGroup(items)}
+    `;
+
+    it('matches items containing every word, in any order', async () => {
+      document.body.innerHTML = page(
+        faqItem('Return policy', 'International orders can be returned within 30 days.') +
+          faqItem('Return policy', 'Domestic orders only.')
+      );
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('return policy international');
+
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('true');
+      expect(faq.items[1].item.getAttribute('data-faq-open')).toBe('false');
+    });
+
+    it('matches items containing any word with the or operator', async () => {
+      document.body.innerHTML = page(
+        faqItem('Returns', 'Send it back') +
+          faqItem('Warranty', 'Two years') +
+          faqItem('Other', 'x'),
+        `${ATTR.searchOperator}="or"`
+      );
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('returns warranty');
+
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('true');
+      expect(faq.items[1].item.getAttribute('data-faq-open')).toBe('true');
+      expect(faq.items[2].item.getAttribute('data-faq-open')).toBe('false');
+    });
+
+    it('matches nothing with only excluded words, clearing the previous search', async () => {
+      document.body.innerHTML = `
+        ${page(faqItem('Refunds', 'Refund policy') + faqItem('Shipping', 'Ships fast'), `${ATTR.floatingSearch}="true"`)}
+        <div ${ATTR.element}="${ROLES.emptyState}">No results</div>
+      `;
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const searches = vi.fn();
+      document.addEventListener('cur-faq:search', searches);
+      faq.search('refund');
+      const counter = document.querySelector('.cur-faq-floating-search .counter')!;
+      expect(counter.textContent).toBe('1/2');
+
+      faq.search('-refund');
+      const [item] = faq.items;
+      expect(item.item.getAttribute('data-faq-open')).toBe('false');
+      expect(item.item.hasAttribute('data-opened-by-search')).toBe(false);
+      expect(document.querySelectorAll('mark')).toHaveLength(0);
+      expect(counter.textContent).toBe('0/0');
+      expect(
+        document.querySelector<HTMLElement>(`[${ATTR.element}="${ROLES.emptyState}"]`)!.style
+          .display
+      ).toBe('');
+      expect(searches).toHaveBeenCalledTimes(2);
+      expect(searches.mock.calls[1][0].detail).toMatchObject({ query: '-refund', results: [] });
+      document.removeEventListener('cur-faq:search', searches);
+    });
+
+    it('skips items containing an excluded word', async () => {
+      document.body.innerHTML = page(
+        faqItem('Gift card refund', 'Expired cards cannot be refunded') +
+          faqItem('Gift card balance', 'Check your balance online')
+      );
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('"gift card" -expired');
+
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('false');
+      expect(faq.items[1].item.getAttribute('data-faq-open')).toBe('true');
+    });
+
+    it('highlights each term independently and keeps marks in document order', async () => {
+      document.body.innerHTML = page(faqItem('Return policy', 'International returns are free'));
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('international return');
+
+      const marks = Array.from(document.querySelectorAll('mark.faq-search-highlight'));
+      expect(marks.map((m) => m.textContent)).toEqual(['Return', 'International', 'return']);
+    });
+  });
+
+  describe('accent-insensitive search', () => {
+    it('matches unaccented queries against accented text', async () => {
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" />
+        ${faqGroup(faqItem('Crème brûlée', 'Dessert') + faqItem('Biscuits', 'Dessert'))}
+      `;
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('creme');
+
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('true');
+      expect(faq.items[1].item.getAttribute('data-faq-open')).toBe('false');
+      expect(document.querySelector('mark.faq-search-highlight')?.textContent).toBe('Crème');
+    });
+
+    it('maps highlights back to the original text when folding changes its length', async () => {
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" />
+        ${faqGroup(faqItem('Lieferung', 'Die Hauptstraße 5 in Berlin'))}
+      `;
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('strasse 5');
+
+      const marks = Array.from(document.querySelectorAll('mark.faq-search-highlight'));
+      expect(marks.map((m) => m.textContent)).toEqual(['straße', '5']);
+      expect(faq.items[0].content!.textContent).toContain('Die Hauptstraße 5 in Berlin');
+    });
+  });
+
+  describe('filter mode', () => {
+    const filterPage = () => `
+      <input type="search" ${ATTR.element}="${ROLES.search}" ${ATTR.searchFilter}="true" />
+      <div ${ATTR.element}="${ROLES.emptyState}" style="display: none;">No results</div>
+      ${faqGroup(faqItem('Refunds', 'Money back') + faqItem('Returns', 'Send it back'))}
+      ${faqGroup(faqItem('Shipping', 'Delivery times'), 'style="display: grid;"')}
+    `;
+
+    const groupEls = () =>
+      Array.from(document.querySelectorAll<HTMLElement>(`[${ATTR.element}="${ROLES.group}"]`));
+
+    it('hides non-matching items and groups without matches', async () => {
+      document.body.innerHTML = filterPage();
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('refunds');
+
+      expect(faq.items[0].item.style.display).toBe('');
+      expect(faq.items[1].item.style.display).toBe('none');
+      expect(faq.items[1].item.getAttribute('data-faq-filtered')).toBe('true');
+      expect(groupEls()[0].style.display).toBe('');
+      expect(groupEls()[1].style.display).toBe('none');
+    });
+
+    it('leaves non-matching items visible when filter mode is off', async () => {
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" />
+        ${faqGroup(faqItem('Refunds', 'Money back') + faqItem('Returns', 'Send it back'))}
+      `;
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('refunds');
+      expect(faq.items[1].item.style.display).toBe('');
+    });
+
+    it('hides every item and shows the empty state when nothing matches', async () => {
+      document.body.innerHTML = filterPage();
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('zzzznotfound');
+
+      expect(faq.items.every(({ item }) => item.style.display === 'none')).toBe(true);
+      const emptyState = document.querySelector<HTMLElement>(
+        `[${ATTR.element}="${ROLES.emptyState}"]`
+      )!;
+      expect(emptyState.style.display).not.toBe('none');
+    });
+
+    it('clearSearch restores items and the original group display', async () => {
+      document.body.innerHTML = filterPage();
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('refunds');
+      faq.clearSearch();
+
+      expect(faq.items.every(({ item }) => item.style.display === '')).toBe(true);
+      expect(faq.items.some(({ item }) => item.hasAttribute('data-faq-filtered'))).toBe(false);
+      expect(groupEls()[1].style.display).toBe('grid');
+    });
+
+    it('destroy restores filtered items', async () => {
+      document.body.innerHTML = filterPage();
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const items = faq.items.map(({ item }) => item);
+      faq.search('refunds');
+      faq.destroy();
+
+      expect(items.every((item) => item.style.display === '')).toBe(true);
+      expect(groupEls()[1].style.display).toBe('grid');
+    });
+
+    it('dispatches cur-faq:filter with visible counts per group', async () => {
+      document.body.innerHTML = filterPage();
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const handler = vi.fn();
+      document.addEventListener('cur-faq:filter', handler);
+      faq.search('back');
+      document.removeEventListener('cur-faq:filter', handler);
+
+      const { detail } = handler.mock.calls[0][0];
+      expect(detail.query).toBe('back');
+      expect(detail.visibleCount).toBe(2);
+      expect(detail.groups).toEqual([
+        { group: groupEls()[0], visible: 2, total: 2 },
+        { group: groupEls()[1], visible: 0, total: 1 },
+      ]);
+    });
+  });
+
+  describe('deep linking', () => {
+    const setUrl = (url: string) => window.history.replaceState(null, '', url);
+
+    beforeEach(() => {
+      window.curFaqConfig = { deepLink: true };
+    });
+
+    it('derives unique slugs from titles, preferring the slug attribute', async () => {
+      document.body.innerHTML = faqGroup(
+        faqItem('Crème brûlée?', 'A') +
+          faqItem('Crème brûlée?', 'B') +
+          faqItem('Ignored', 'C').replace(
+            `${ATTR.element}="${ROLES.item}"`,
+            `${ATTR.element}="${ROLES.item}" ${ATTR.slug}="custom"`
+          )
+      );
+      await initModule();
+      expect(window.curFaq!.get()!.items.map((i) => i.slug)).toEqual([
+        'creme-brulee',
+        'creme-brulee-2',
+        'custom',
+      ]);
+    });
+
+    it('opens and scrolls to the item referenced by the hash on load', async () => {
+      setUrl('/help#shipping-times');
+      document.body.innerHTML = faqGroup(faqItem('Refunds', 'A') + faqItem('Shipping times', 'B'));
+      const scrollSpy = vi.spyOn(HTMLElement.prototype, 'scrollIntoView');
+      await initModule();
+      const faq = window.curFaq!.get()!;
+
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('false');
+      expect(faq.items[1].item.getAttribute('data-faq-open')).toBe('true');
+      expect(scrollSpy.mock.contexts).toContain(faq.items[1].item);
+      scrollSpy.mockRestore();
+    });
+
+    it('opens items when the hash changes', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Refunds', 'A') + faqItem('Shipping', 'B'));
+      await initModule();
+      const faq = window.curFaq!.get()!;
+
+      setUrl('/#refunds');
+      window.dispatchEvent(new Event('hashchange'));
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('true');
+    });
+
+    it('writes the hash when the user opens an item and clears it on close', async () => {
+      setUrl('/help?page=2');
+      document.body.innerHTML = faqGroup(faqItem('Refunds', 'A'));
+      await initModule();
+      const trigger = window.curFaq!.get()!.items[0].trigger!;
+
+      trigger.click();
+      expect(window.location.pathname + window.location.search).toBe('/help?page=2');
+      expect(window.location.hash).toBe('#refunds');
+
+      trigger.click();
+      expect(window.location.hash).toBe('');
+    });
+
+    it('restores a ?faq-q= search into the search input', async () => {
+      delete window.curFaqConfig;
+      setUrl('/?faq-q=shipping');
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" ${ATTR.deepLink}="true" />
+        ${faqGroup(faqItem('Refunds', 'A') + faqItem('Shipping', 'B'))}
+      `;
+      await initModule();
+      const faq = window.curFaq!.get()!;
+
+      const input = document.querySelector<HTMLInputElement>('input[type="search"]')!;
+      expect(input.value).toBe('shipping');
+      expect(faq.items[1].item.getAttribute('data-faq-open')).toBe('true');
+      expect(document.querySelectorAll('mark.faq-search-highlight')).toHaveLength(1);
+    });
+
+    it('leaves the URL alone by default', async () => {
+      delete window.curFaqConfig;
+      setUrl('/?faq-q=refunds#refunds');
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" />
+        ${faqGroup(faqItem('Refunds', 'A'))}
+      `;
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('false');
+      expect(document.querySelector<HTMLInputElement>('input[type="search"]')!.value).toBe('');
+
+      setUrl('/');
+      faq.items[0].trigger!.click();
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('true');
+      expect(window.location.hash).toBe('');
+    });
+
+    it('ignores the URL when deep linking is disabled', async () => {
+      setUrl('/#refunds');
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" ${ATTR.deepLink}="false" />
+        ${faqGroup(faqItem('Refunds', 'A'))}
+      `;
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('false');
+
+      faq.items[0].trigger!.click();
+      expect(window.location.hash).toBe('#refunds');
+      faq.items[0].trigger!.click();
+      expect(window.location.hash).toBe('#refunds');
+    });
+  });
+
+  describe('persistence', () => {
+    const persistPage = (attrs = `${ATTR.persist}="session"`) => `
+      <input type="search" ${ATTR.element}="${ROLES.search}" ${attrs} />
+      ${faqGroup(faqItem('Refunds', 'Money back') + faqItem('Shipping', 'Delivery'), `${ATTR.defaultOpen}="0"`)}
+    `;
+
+    /** Simulate leaving the page and coming back to it. */
+    const reload = async (html: string) => {
+      window.curFaq?.all().forEach((faq) => faq.destroy());
+      delete window.curFaq;
+      vi.resetModules();
+      document.body.innerHTML = html;
+      await initModule();
+      return window.curFaq!.get()!;
+    };
+
+    it('restores the items the user had open instead of the default', async () => {
+      document.body.innerHTML = persistPage();
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.close(faq.items[0]);
+      faq.open(faq.items[1]);
+
+      const restored = await reload(persistPage());
+      expect(restored.items[0].item.getAttribute('data-faq-open')).toBe('false');
+      expect(restored.items[1].item.getAttribute('data-faq-open')).toBe('true');
+    });
+
+    it('restores the last search query', async () => {
+      document.body.innerHTML = persistPage();
+      await initModule();
+      window.curFaq!.get()!.search('delivery');
+      window.dispatchEvent(new Event('pagehide'));
+
+      const restored = await reload(persistPage());
+      const input = document.querySelector<HTMLInputElement>('input[type="search"]')!;
+      expect(input.value).toBe('delivery');
+      expect(restored.items[1].item.getAttribute('data-opened-by-search')).toBe('true');
+    });
+
+    it('does not remember items opened by search as user-opened', async () => {
+      document.body.innerHTML = persistPage();
+      await initModule();
+      window.curFaq!.get()!.search('delivery');
+      window.curFaq!.get()!.clearSearch();
+      window.dispatchEvent(new Event('pagehide'));
+
+      const restored = await reload(persistPage());
+      expect(restored.items[1].item.getAttribute('data-faq-open')).toBe('false');
+    });
+
+    it('starts fresh when persistence is off', async () => {
+      document.body.innerHTML = persistPage('');
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.open(faq.items[1]);
+
+      const restored = await reload(persistPage(''));
+      expect(restored.items[0].item.getAttribute('data-faq-open')).toBe('true');
+      expect(restored.items[1].item.getAttribute('data-faq-open')).toBe('false');
+      expect(window.sessionStorage.length).toBe(0);
+    });
+  });
+
+  describe('JSON-LD', () => {
+    const jsonLdPage = (attrs = `${ATTR.jsonLd}="true"`) => `
+      <input type="search" ${ATTR.element}="${ROLES.search}" ${attrs} />
+      ${faqGroup(faqItem('Refunds', 'Within 30 days') + faqItem('Shipping', 'Two days'))}
+    `;
+
+    const jsonLdScript = () =>
+      document.querySelector<HTMLScriptElement>('script[type="application/ld+json"]');
+
+    it('emits a FAQPage block built from the items', async () => {
+      document.body.innerHTML = jsonLdPage();
+      await initModule();
+      const data = JSON.parse(jsonLdScript()!.textContent!);
+      expect(data['@type']).toBe('FAQPage');
+      expect(data.mainEntity.map((q: { name: string }) => q.name)).toEqual(['Refunds', 'Shipping']);
+      expect(data.mainEntity[0].acceptedAnswer.text).toBe('<p>Within 30 days</p>');
+    });
+
+    it('does not emit a block unless enabled', async () => {
+      document.body.innerHTML = jsonLdPage('');
+      await initModule();
+      expect(jsonLdScript()).toBeNull();
+    });
+
+    it('exposes toJsonLd() even when the block is not emitted', async () => {
+      document.body.innerHTML = jsonLdPage('');
+      await initModule();
+      expect(window.curFaq!.get()!.toJsonLd().mainEntity).toHaveLength(2);
+    });
+
+    it('leaves search highlights out of the answers', async () => {
+      document.body.innerHTML = jsonLdPage();
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('days');
+      expect(faq.toJsonLd().mainEntity[1].acceptedAnswer.text).toBe('<p>Two days</p>');
+    });
+
+    it('removes the block on destroy', async () => {
+      document.body.innerHTML = jsonLdPage();
+      await initModule();
+      window.curFaq!.get()!.destroy();
+      expect(jsonLdScript()).toBeNull();
+    });
+  });
+
+  describe('keyboard navigation', () => {
+    const press = (el: Element, key: string) =>
+      el.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+
+    const triggers = () =>
+      Array.from(document.querySelectorAll<HTMLElement>(`[${ATTR.element}="${ROLES.trigger}"]`));
+
+    const threeItems = faqItem('Q1', 'A1') + faqItem('Q2', 'A2') + faqItem('Q3', 'A3');
+
+    it('moves focus with the arrow keys and wraps around', async () => {
+      document.body.innerHTML = faqGroup(threeItems);
+      await initModule();
+      const [t1, t2, t3] = triggers();
+
+      t1.focus();
+      press(t1, 'ArrowDown');
+      expect(document.activeElement).toBe(t2);
+      press(t2, 'ArrowUp');
+      expect(document.activeElement).toBe(t1);
+      press(t1, 'ArrowUp');
+      expect(document.activeElement).toBe(t3);
+      press(t3, 'ArrowDown');
+      expect(document.activeElement).toBe(t1);
+    });
+
+    it('jumps to the first and last trigger with Home and End', async () => {
+      document.body.innerHTML = faqGroup(threeItems);
+      await initModule();
+      const [t1, t2, t3] = triggers();
+
+      t2.focus();
+      press(t2, 'End');
+      expect(document.activeElement).toBe(t3);
+      press(t3, 'Home');
+      expect(document.activeElement).toBe(t1);
+    });
+
+    it('stays within the group', async () => {
+      document.body.innerHTML = faqGroup(faqItem('G1', 'A')) + faqGroup(faqItem('G2', 'A'));
+      await initModule();
+      const [t1] = triggers();
+
+      t1.focus();
+      press(t1, 'ArrowDown');
+      expect(document.activeElement).toBe(t1);
+    });
+
+    it('skips items hidden by filter mode', async () => {
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" ${ATTR.searchFilter}="true" />
+        ${faqGroup(faqItem('Apple', 'A') + faqItem('Banana', 'B') + faqItem('Apricot', 'C'))}
+      `;
+      await initModule();
+      window.curFaq!.get()!.search('ap');
+      const [t1, , t3] = triggers();
+
+      t1.focus();
+      press(t1, 'ArrowDown');
+      expect(document.activeElement).toBe(t3);
+    });
+
+    it('keeps a single tab stop per group with roving tabindex', async () => {
+      document.body.innerHTML = faqGroup(threeItems, `${ATTR.rovingTabindex}="true"`);
+      await initModule();
+      const [t1, t2, t3] = triggers();
+      const tabindexes = () => [t1, t2, t3].map((t) => t.getAttribute('tabindex'));
+
+      expect(tabindexes()).toEqual(['0', '-1', '-1']);
+      t1.focus();
+      press(t1, 'End');
+      expect(tabindexes()).toEqual(['-1', '-1', '0']);
+      t2.focus();
+      expect(tabindexes()).toEqual(['-1', '0', '-1']);
+    });
+
+    it('labels each content panel as a region of its trigger', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
+      await initModule();
+      const [trigger] = triggers();
+      const content = document.querySelector(`[${ATTR.element}="${ROLES.content}"]`)!;
+
+      expect(content.getAttribute('role')).toBe('region');
+      expect(content.getAttribute('aria-labelledby')).toBe(trigger.id);
+    });
+
+    it('removes keyboard handling and ARIA additions on destroy', async () => {
+      document.body.innerHTML = faqGroup(threeItems, `${ATTR.rovingTabindex}="true"`);
+      await initModule();
+      window.curFaq!.get()!.destroy();
+      const [t1] = triggers();
+      const content = document.querySelector(`[${ATTR.element}="${ROLES.content}"]`)!;
+
+      expect(t1.hasAttribute('tabindex')).toBe(false);
+      expect(t1.hasAttribute('role')).toBe(false);
+      expect(content.hasAttribute('role')).toBe(false);
+      expect(content.hasAttribute('aria-labelledby')).toBe(false);
+
+      t1.focus();
+      press(t1, 'ArrowDown');
+      expect(document.activeElement).toBe(t1);
+    });
+  });
+
+  describe('dynamic content', () => {
+    /** Let MutationObserver callbacks run. */
+    const flushMutations = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    /** Append items to the first group, as a CMS "load more" would. */
+    const appendItems = (html: string) => {
+      document
+        .querySelector(`[${ATTR.element}="${ROLES.group}"]`)!
+        .insertAdjacentHTML('beforeend', html);
+    };
+
+    it('wires items added after init', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
+      await initModule();
+      appendItems(faqItem('Q2', 'A2'));
+      await flushMutations();
+
+      const faq = window.curFaq!.get()!;
+      expect(faq.items).toHaveLength(2);
+      const added = faq.items[1];
+      expect(added.item.getAttribute('data-faq-open')).toBe('false');
+      expect(added.content?.hasAttribute('hidden')).toBe(true);
+      expect(added.trigger?.getAttribute('role')).toBe('button');
+
+      added.trigger!.click();
+      expect(added.item.getAttribute('data-faq-open')).toBe('true');
+    });
+
+    it('applies the group config to added items', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'), `${ATTR.accordion}="true"`);
+      await initModule();
+      appendItems(faqItem('Q2', 'A2'));
+      await flushMutations();
+
+      const [first, second] = window.curFaq!.get()!.items;
+      first.trigger!.click();
+      second.trigger!.click();
+      expect(first.item.getAttribute('data-faq-open')).toBe('false');
+      expect(second.item.getAttribute('data-faq-open')).toBe('true');
+    });
+
+    it('includes added items in the active search and filter', async () => {
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" ${ATTR.searchFilter}="true" />
+        ${faqGroup(faqItem('Refunds', 'Money back') + faqItem('Shipping', 'Delivery'))}
+      `;
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('refunds');
+      appendItems(faqItem('Refunds abroad', 'International') + faqItem('Returns', 'Send it'));
+      await flushMutations();
+
+      const [, , matching, other] = faq.items;
+      expect(matching.item.getAttribute('data-faq-open')).toBe('true');
+      expect(matching.title?.querySelector('mark')).not.toBeNull();
+      expect(other.item.style.display).toBe('none');
+    });
+
+    it('unbinds removed items', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1') + faqItem('Q2', 'A2'));
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const removed = faq.items[1];
+      removed.item.remove();
+      await flushMutations();
+
+      expect(faq.items).toHaveLength(1);
+      removed.trigger!.click();
+      expect(removed.item.getAttribute('data-faq-open')).toBe('false');
+    });
+
+    it('refresh() picks up changes synchronously', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      appendItems(faqItem('Q2', 'A2'));
+      faq.refresh();
+      expect(faq.items).toHaveLength(2);
+    });
+
+    it('keeps existing items and their state across a refresh', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const [first] = faq.items;
+      faq.open(first);
+      appendItems(faqItem('Q2', 'A2'));
+      faq.refresh();
+
+      expect(faq.items[0]).toBe(first);
+      expect(first.item.getAttribute('data-faq-open')).toBe('true');
+    });
+
+    it('stops observing after destroy', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.destroy();
+      appendItems(faqItem('Q2', 'A2'));
+      await flushMutations();
+
+      const trigger = document.querySelectorAll(`[${ATTR.element}="${ROLES.trigger}"]`)[1];
+      expect(trigger.hasAttribute('role')).toBe(false);
+    });
+  });
+
+  describe('multiple instances', () => {
+    /** A named FAQ section with its own search box and empty state. */
+    const section = (name: string, items: string, searchAttrs = '') => `
+      <section ${ATTR.instance}="${name}">
+        <input type="search" ${ATTR.element}="${ROLES.search}" ${searchAttrs} />
+        <div ${ATTR.element}="${ROLES.emptyState}" style="display: none;">No results</div>
+        ${faqGroup(items)}
+      </section>
+    `;
+
+    const twoSections = (billingAttrs = '', shippingAttrs = '') =>
+      section('billing', faqItem('Refunds', 'Money back'), billingAttrs) +
+      section('shipping', faqItem('Delivery', 'Two days'), shippingAttrs);
+
+    const emptyStateOf = (name: string) =>
+      document.querySelector<HTMLElement>(
+        `[${ATTR.instance}="${name}"] [${ATTR.element}="${ROLES.emptyState}"]`
+      )!;
+
+    it('creates one instance per root, available by name', async () => {
+      document.body.innerHTML = twoSections();
+      await initModule();
+      const registry = window.curFaq!;
+
+      expect(registry.all().map(({ name }) => name)).toEqual(['billing', 'shipping']);
+      expect(registry.get('billing')!.items[0].title?.textContent).toBe('Refunds');
+      expect(registry.get('shipping')!.items[0].title?.textContent).toBe('Delivery');
+      expect(registry.get()).toBe(registry.get('billing'));
+      expect(registry.get('missing')).toBeUndefined();
+    });
+
+    it('adds a default instance for markup outside any root', async () => {
+      document.body.innerHTML = twoSections() + faqGroup(faqItem('General', 'Hello'));
+      await initModule();
+      const registry = window.curFaq!;
+
+      expect(registry.all().map(({ name }) => name)).toEqual(['default', 'billing', 'shipping']);
+      expect(registry.get('default')!.items).toHaveLength(1);
+      expect(registry.get('default')!.root).toBe(document.body);
+    });
+
+    it('keeps searches, highlights and empty states separate', async () => {
+      document.body.innerHTML = twoSections();
+      await initModule();
+      const billing = window.curFaq!.get('billing')!;
+      const shipping = window.curFaq!.get('shipping')!;
+
+      billing.search('refunds');
+      shipping.search('zzzznotfound');
+
+      expect(billing.items[0].item.getAttribute('data-faq-open')).toBe('true');
+      expect(billing.items[0].title?.querySelector('mark')).not.toBeNull();
+      expect(emptyStateOf('billing').style.display).toBe('none');
+      expect(emptyStateOf('shipping').style.display).not.toBe('none');
+
+      shipping.clearSearch();
+      expect(billing.items[0].title?.querySelector('mark')).not.toBeNull();
+    });
+
+    it('reads each instance config from its own search element', async () => {
+      document.body.innerHTML = twoSections(`${ATTR.searchMode}="fuzzy"`);
+      await initModule();
+      expect(window.curFaq!.get('billing')!.config.searchMode).toBe('fuzzy');
+      expect(window.curFaq!.get('shipping')!.config.searchMode).toBe('exact');
+    });
+
+    it('dispatches filter events on the instance root', async () => {
+      document.body.innerHTML = twoSections(`${ATTR.searchFilter}="true"`);
+      await initModule();
+      const root = document.querySelector(`[${ATTR.instance}="billing"]`)!;
+      const handler = vi.fn();
+      root.addEventListener('cur-faq:filter', handler);
+
+      window.curFaq!.get('billing')!.search('refunds');
+      expect(handler).toHaveBeenCalledOnce();
+    });
+
+    it('restores a search from the instance URL parameter', async () => {
+      window.curFaqConfig = { deepLink: true };
+      window.history.replaceState(null, '', '/?faq-q-shipping=delivery');
+      document.body.innerHTML = twoSections();
+      await initModule();
+
+      expect(window.curFaq!.get('shipping')!.items[0].item.getAttribute('data-faq-open')).toBe(
+        'true'
+      );
+      expect(window.curFaq!.get('billing')!.items[0].item.getAttribute('data-faq-open')).toBe(
+        'false'
+      );
+    });
+
+    it('destroying one instance leaves the others running', async () => {
+      document.body.innerHTML = twoSections();
+      await initModule();
+      window.curFaq!.get('billing')!.destroy();
+
+      expect(window.curFaq!.all().map(({ name }) => name)).toEqual(['shipping']);
+      const shipping = window.curFaq!.get('shipping')!;
+      shipping.items[0].trigger!.click();
+      expect(shipping.items[0].item.getAttribute('data-faq-open')).toBe('true');
+      expect(document.getElementById('cur-faq-styles-shipping')).not.toBeNull();
+    });
+  });
+
+  describe('JS options', () => {
+    const styleText = (id = 'cur-faq-styles') => document.getElementById(id)?.textContent ?? '';
+
+    it('applies window.curFaqConfig set before the script runs', async () => {
+      window.curFaqConfig = {
+        colors: { highlightBackground: 'gold' },
+        groups: { accordion: true },
+      };
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1') + faqItem('Q2', 'A2'));
+      await initModule();
+      const faq = window.curFaq!.get()!;
+
+      expect(faq.config.colors.highlightBackground).toBe('gold');
+      expect(styleText()).toContain('--cur-faq-highlight-bg: gold');
+      faq.open(faq.items[0]);
+      faq.open(faq.items[1]);
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('false');
+    });
+
+    it('applies per-instance options over the shared ones', async () => {
+      window.curFaqConfig = {
+        searchMode: 'fuzzy',
+        instances: { shipping: { searchMode: 'exact' } },
+      };
+      document.body.innerHTML = `
+        <section ${ATTR.instance}="billing">${faqGroup(faqItem('Q1', 'A1'))}</section>
+        <section ${ATTR.instance}="shipping">${faqGroup(faqItem('Q2', 'A2'))}</section>
+      `;
+      await initModule();
+      expect(window.curFaq!.get('billing')!.config.searchMode).toBe('fuzzy');
+      expect(window.curFaq!.get('shipping')!.config.searchMode).toBe('exact');
+    });
+
+    it('lets HTML attributes win over JS options', async () => {
+      window.curFaqConfig = { searchMode: 'fuzzy', groups: { accordion: true } };
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" ${ATTR.searchMode}="exact" />
+        ${faqGroup(faqItem('Q1', 'A1'), `${ATTR.accordion}="false"`)}
+      `;
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      expect(faq.config.searchMode).toBe('exact');
+      faq.open(faq.items[0]);
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('true');
+    });
+
+    it('createFaq scopes a new instance to an unmarked root', async () => {
+      document.body.innerHTML = `
+        ${faqGroup(faqItem('General', 'Hello'))}
+        <div id="widget">${faqGroup(faqItem('Widget', 'Inside'))}</div>
+      `;
+      const { createFaq } = await initModule();
+      const root = document.getElementById('widget')!;
+      const widget = createFaq(root, { timing: { collapseDuration: 500 } });
+
+      expect(root.getAttribute(ATTR.instance)).toBe(widget.name);
+      expect(widget.items.map(({ title }) => title?.textContent)).toEqual(['Widget']);
+      expect(widget.config.timing.collapseDuration).toBe(500);
+      expect(window.curFaq!.get('default')!.items).toHaveLength(1);
+      expect(window.curFaq!.get(widget.name)).toBe(widget);
+      expect(styleText(`cur-faq-styles-${widget.name}`)).toContain(`#${root.id} {`);
+    });
+
+    it('createFaq replaces the instance already on a root', async () => {
+      document.body.innerHTML = `
+        <section ${ATTR.instance}="billing">${faqGroup(faqItem('Q1', 'A1'))}</section>
+      `;
+      const { createFaq } = await initModule();
+      const previous = window.curFaq!.get('billing')!;
+      const next = createFaq(previous.root, { searchMode: 'fuzzy' });
+
+      expect(next).not.toBe(previous);
+      expect(next.name).toBe('billing');
+      expect(window.curFaq!.all()).toEqual([next]);
+      expect(next.config.searchMode).toBe('fuzzy');
+    });
+
+    it('warns about invalid options and keeps the defaults', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
+      const { createFaq } = await initModule();
+      const faq = createFaq(document.body, { searchDebounce: 100 } as never);
+
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('"searchDebounce"'));
+      expect(faq.config.timing.searchDebounce).toBe(300);
+      warn.mockRestore();
+    });
+  });
+
+  describe('diagnostics', () => {
+    it('logs configuration issues when cur-faq-debug is set', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const group = vi.spyOn(console, 'groupCollapsed').mockImplementation(() => {});
+      vi.spyOn(console, 'groupEnd').mockImplementation(() => {});
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" ${ATTR.debug}="true" />
+        ${faqGroup(faqItem('Q1', 'A1'), `${ATTR.defaultOpen}="5"`)}
+      `;
+      await initModule();
+
+      expect(group).toHaveBeenCalledWith('[cur-faq] "default": 1 configuration issue(s)');
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('out of range'),
+        document.querySelector(`[${ATTR.element}="${ROLES.group}"]`)
+      );
+      vi.restoreAllMocks();
+    });
+
+    it('stays quiet without cur-faq-debug', async () => {
+      const group = vi.spyOn(console, 'groupCollapsed');
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'), `${ATTR.defaultOpen}="5"`);
+      await initModule();
+      expect(group).not.toHaveBeenCalled();
+      vi.restoreAllMocks();
+    });
+
+    it('renders the overlay and removes it on destroy', async () => {
+      vi.spyOn(console, 'groupCollapsed').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(console, 'groupEnd').mockImplementation(() => {});
+      document.body.setAttribute(ATTR.debug, 'overlay');
+      document.body.innerHTML = faqGroup(`<div ${ATTR.element}="${ROLES.item}"></div>`);
+      await initModule();
+
+      expect(document.getElementById('cur-faq-debug-overlay')).not.toBeNull();
+      expect(document.querySelector('[data-faq-issue]')).not.toBeNull();
+      window.curFaq!.get()!.destroy();
+      expect(document.getElementById('cur-faq-debug-overlay')).toBeNull();
+      expect(document.querySelector('[data-faq-issue]')).toBeNull();
+      document.body.removeAttribute(ATTR.debug);
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe('nested items', () => {
+    /** An item whose content holds `children` after its own answer. */
+    const parentItem = (title: string, children: string) =>
+      faqItem(title, 'Overview').replace('</p>', `</p>${children}`);
+
+    const nestedPage = (attrs = '') =>
+      faqGroup(
+        parentItem('Billing', faqItem('Invoices', 'Monthly PDF') + faqItem('Refunds', 'Ten days')) +
+          faqItem('Shipping', 'Worldwide'),
+        attrs
+      );
+
+    const isOpen = (faqItem: { item: HTMLElement }) =>
+      faqItem.item.getAttribute('data-faq-open') === 'true';
+
+    it('links items to their parent and children', async () => {
+      document.body.innerHTML = nestedPage();
+      await initModule();
+      const [billing, invoices, refunds, shipping] = window.curFaq!.get()!.items;
+
+      expect(billing.children).toEqual([invoices, refunds]);
+      expect(invoices.parent).toBe(billing);
+      expect(shipping.parent).toBeNull();
+      expect(billing.content?.contains(invoices.item)).toBe(true);
+      expect(billing.trigger?.contains(invoices.trigger!)).toBe(false);
+    });
+
+    it('applies accordion exclusivity per nesting level', async () => {
+      document.body.innerHTML = nestedPage(`${ATTR.accordion}="true"`);
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const [billing, invoices, refunds, shipping] = faq.items;
+
+      faq.open(billing);
+      faq.open(invoices);
+      expect(isOpen(billing)).toBe(true);
+
+      faq.open(refunds);
+      expect(isOpen(invoices)).toBe(false);
+      expect(isOpen(billing)).toBe(true);
+
+      faq.open(shipping);
+      expect(isOpen(billing)).toBe(false);
+      expect(isOpen(refunds)).toBe(true);
+    });
+
+    it('keeps nested items open while their parent is collapsed', async () => {
+      document.body.innerHTML = nestedPage();
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const [billing, invoices] = faq.items;
+
+      faq.open(invoices);
+      expect(isOpen(billing)).toBe(true);
+      faq.close(billing);
+      expect(isOpen(invoices)).toBe(true);
+      faq.open(billing);
+      expect(invoices.content?.hasAttribute('hidden')).toBe(false);
+    });
+
+    it('opens every ancestor of a matching nested item and highlights it once', async () => {
+      document.body.innerHTML = nestedPage();
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const [billing, invoices, refunds] = faq.items;
+
+      faq.search('monthly');
+      expect(isOpen(billing)).toBe(true);
+      expect(isOpen(invoices)).toBe(true);
+      expect(isOpen(refunds)).toBe(false);
+      expect(document.querySelectorAll('mark.faq-search-highlight')).toHaveLength(1);
+
+      faq.clearSearch();
+      expect(isOpen(billing)).toBe(false);
+      expect(isOpen(invoices)).toBe(false);
+    });
+
+    it('leaves a user-opened parent open when the search is cleared', async () => {
+      document.body.innerHTML = nestedPage();
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const [billing, invoices] = faq.items;
+
+      faq.open(billing);
+      faq.search('monthly');
+      faq.clearSearch();
+      expect(isOpen(billing)).toBe(true);
+      expect(isOpen(invoices)).toBe(false);
+    });
+
+    it('keeps the parents of matching items visible in filter mode', async () => {
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" ${ATTR.searchFilter}="true" />
+        ${nestedPage()}
+      `;
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const [billing, invoices, refunds, shipping] = faq.items;
+
+      faq.search('monthly');
+      expect(billing.item.style.display).toBe('');
+      expect(invoices.item.style.display).toBe('');
+      expect(refunds.item.style.display).toBe('none');
+      expect(shipping.item.style.display).toBe('none');
+    });
+
+    it('opens the parents of an item linked by hash', async () => {
+      window.curFaqConfig = { deepLink: true };
+      window.history.replaceState(null, '', '/help#refunds');
+      document.body.innerHTML = nestedPage();
+      await initModule();
+      const [billing, , refunds] = window.curFaq!.get()!.items;
+
+      expect(isOpen(billing)).toBe(true);
+      expect(isOpen(refunds)).toBe(true);
+    });
+
+    it('counts default-open among top-level items only', async () => {
+      document.body.innerHTML = nestedPage(`${ATTR.defaultOpen}="1"`);
+      await initModule();
+      const [billing, invoices, , shipping] = window.curFaq!.get()!.items;
+
+      expect(isOpen(shipping)).toBe(true);
+      expect(isOpen(billing)).toBe(false);
+      expect(isOpen(invoices)).toBe(false);
+    });
+
+    it('moves arrow-key focus between items on the same level', async () => {
+      document.body.innerHTML = nestedPage(`${ATTR.rovingTabindex}="true"`);
+      await initModule();
+      const [billing, invoices, refunds, shipping] = window.curFaq!.get()!.items;
+      const press = (el: Element, key: string) =>
+        el.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+
+      billing.trigger!.focus();
+      press(billing.trigger!, 'ArrowDown');
+      expect(document.activeElement).toBe(shipping.trigger);
+
+      invoices.trigger!.focus();
+      press(invoices.trigger!, 'ArrowDown');
+      expect(document.activeElement).toBe(refunds.trigger);
+      expect(refunds.trigger?.getAttribute('tabindex')).toBe('0');
+      // Each level keeps its own tab stop
+      expect(shipping.trigger?.getAttribute('tabindex')).toBe('0');
+      expect(billing.trigger?.getAttribute('tabindex')).toBe('-1');
+    });
+
+    it('gives a group nested in an item its own settings', async () => {
+      document.body.innerHTML = faqGroup(
+        parentItem(
+          'Billing',
+          faqGroup(faqItem('Invoices', 'A') + faqItem('Refunds', 'B'), `${ATTR.accordion}="true"`)
+        ) + faqItem('Shipping', 'C')
+      );
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const [billing, shipping, invoices, refunds] = faq.items;
+
+      expect(invoices.parent).toBe(billing);
+      faq.open(shipping);
+      faq.open(invoices);
+      faq.open(refunds);
+      expect(isOpen(invoices)).toBe(false);
+      expect(isOpen(shipping)).toBe(true);
+      expect(isOpen(billing)).toBe(true);
+    });
+  });
+
+  describe('expand all / collapse all', () => {
+    const control = (role: string, attrs = '', text = role) =>
+      `<button type="button" ${ATTR.element}="${role}" ${attrs}>${text}</button>`;
+
+    const openStates = () =>
+      window.curFaq!.get()!.items.map((i) => i.item.getAttribute('data-faq-open') === 'true');
+
+    it('opens and closes every item from the page-level controls', async () => {
+      document.body.innerHTML = `
+        ${control(ROLES.expandAll)}${control(ROLES.collapseAll)}
+        ${faqGroup(faqItem('Q1', 'A1') + faqItem('Q2', 'A2'))}
+        ${faqGroup(faqItem('Q3', 'A3'))}
+      `;
+      await initModule();
+      const [expand, collapse] = Array.from(document.querySelectorAll('button'));
+
+      expand.click();
+      expect(openStates()).toEqual([true, true, true]);
+      collapse.click();
+      expect(openStates()).toEqual([false, false, false]);
+    });
+
+    it('scopes controls inside a group to that group', async () => {
+      document.body.innerHTML =
+        faqGroup(control(ROLES.expandAll) + faqItem('Q1', 'A1') + faqItem('Q2', 'A2')) +
+        faqGroup(faqItem('Q3', 'A3'));
+      await initModule();
+      document.querySelector('button')!.click();
+      expect(openStates()).toEqual([true, true, false]);
+    });
+
+    it('leaves accordion groups alone when expanding', async () => {
+      document.body.innerHTML =
+        faqGroup(faqItem('Q1', 'A1') + faqItem('Q2', 'A2'), `${ATTR.accordion}="true"`) +
+        faqGroup(faqItem('Q3', 'A3'));
+      await initModule();
+      const faq = window.curFaq!.get()!;
+
+      faq.open(faq.items[1]);
+      faq.openAll();
+      expect(openStates()).toEqual([false, true, true]);
+      faq.closeAll();
+      expect(openStates()).toEqual([false, false, false]);
+    });
+
+    it('ignores toggle-all controls covering only accordion groups', async () => {
+      document.body.innerHTML = faqGroup(
+        control(ROLES.toggleAll, '', 'Toggle') + faqItem('Q1', 'A1') + faqItem('Q2', 'A2'),
+        `${ATTR.accordion}="true"`
+      );
+      await initModule();
+      const toggle = document.querySelector('button')!;
+      expect(toggle.hasAttribute('aria-pressed')).toBe(false);
+      window.curFaq!.get()!.open(0);
+      toggle.click();
+      expect(openStates()).toEqual([true, false]);
+    });
+
+    it('clears the search-opened state of the items it closes', async () => {
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" />
+        ${faqGroup(faqItem('Refunds', 'Refund policy') + faqItem('Shipping', 'Ships fast'))}
+      `;
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      faq.search('refund');
+      expect(faq.items[0].item.getAttribute('data-opened-by-search')).toBe('true');
+
+      faq.closeAll();
+      expect(faq.items[0].item.hasAttribute('data-opened-by-search')).toBe(false);
+    });
+
+    it('opens one group through the API', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1')) + faqGroup(faqItem('Q2', 'A2'));
+      await initModule();
+      const [, second] = Array.from(
+        document.querySelectorAll<HTMLElement>(`[${ATTR.element}="${ROLES.group}"]`)
+      );
+      window.curFaq!.get()!.openAll(second);
+      expect(openStates()).toEqual([false, true]);
+    });
+
+    it('dispatches one aggregated event instead of one per item', async () => {
+      document.body.innerHTML = faqGroup(faqItem('Q1', 'A1') + faqItem('Q2', 'A2'));
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const perItem = vi.fn();
+      const aggregated = vi.fn();
+      document.addEventListener('cur-faq:open', perItem);
+      document.addEventListener('cur-faq:toggle-all', aggregated);
+
+      faq.openAll();
+      expect(perItem).not.toHaveBeenCalled();
+      expect(aggregated).toHaveBeenCalledOnce();
+      expect(aggregated.mock.calls[0][0].detail).toEqual({
+        open: true,
+        items: faq.items.map((i) => i.item),
+        group: null,
+      });
+      document.removeEventListener('cur-faq:open', perItem);
+      document.removeEventListener('cur-faq:toggle-all', aggregated);
+    });
+
+    it('batches the height measurements of an expand-all', async () => {
+      document.body.innerHTML = faqGroup(
+        faqItem('Q1', 'A1') + faqItem('Q2', 'A2') + faqItem('Q3', 'A3')
+      );
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const heights = faq.items.map((i) =>
+        vi.spyOn(i.content!, 'scrollHeight', 'get').mockReturnValue(120)
+      );
+      const set = vi.spyOn(CSSStyleDeclaration.prototype, 'height', 'set');
+
+      faq.openAll();
+      // Every element is reset to 0px before the first height is read
+      const firstRead = Math.min(...heights.map((spy) => spy.mock.invocationCallOrder[0]));
+      const resets = set.mock.calls.flatMap(([value], index) =>
+        value === '0px' ? [set.mock.invocationCallOrder[index]] : []
+      );
+      expect(resets).toHaveLength(3);
+      resets.forEach((order) => expect(order).toBeLessThan(firstRead));
+      vi.restoreAllMocks();
+    });
+
+    it("keeps a toggle-all control's aria-pressed and label in sync", async () => {
+      document.body.innerHTML = `
+        ${control(ROLES.toggleAll, `${ATTR.collapseLabel}="Collapse all"`, 'Expand all')}
+        ${faqGroup(faqItem('Q1', 'A1') + faqItem('Q2', 'A2'))}
+      `;
+      await initModule();
+      const faq = window.curFaq!.get()!;
+      const toggle = document.querySelector('button')!;
+      expect(toggle.getAttribute('aria-pressed')).toBe('false');
+
+      toggle.click();
+      expect(openStates()).toEqual([true, true]);
+      expect(toggle.getAttribute('aria-pressed')).toBe('true');
+      expect(toggle.textContent).toBe('Collapse all');
+
+      faq.close(faq.items[0]);
+      expect(toggle.getAttribute('aria-pressed')).toBe('false');
+      expect(toggle.textContent).toBe('Expand all');
+
+      toggle.click();
+      toggle.click();
+      expect(openStates()).toEqual([false, false]);
+
+      faq.destroy();
+      expect(toggle.hasAttribute('aria-pressed')).toBe(false);
+    });
+
+    it('swaps only the label of a toggle-all control with markup', async () => {
+      const icon = '<svg class="icon"></svg>';
+      document.body.innerHTML = `
+        ${control(
+          ROLES.toggleAll,
+          `${ATTR.collapseLabel}="Collapse all"`,
+          `${icon}<span ${ATTR.element}="${ROLES.toggleLabel}">Expand all</span>`
+        )}
+        ${control(ROLES.toggleAll, `${ATTR.collapseLabel}="Collapse all"`, `${icon}Expand all`)}
+        ${faqGroup(faqItem('Q1', 'A1'))}
+      `;
+      await initModule();
+      const [labelled, unlabelled] = Array.from(document.querySelectorAll('button'));
+
+      labelled.click();
+      expect(labelled.querySelector('svg')).not.toBeNull();
+      expect(labelled.textContent).toBe('Collapse all');
+      expect(unlabelled.querySelector('svg')).not.toBeNull();
+      expect(unlabelled.textContent).toBe('Expand all');
+      expect(unlabelled.getAttribute('aria-pressed')).toBe('true');
+    });
+
+    it('makes non-button controls keyboard operable', async () => {
+      document.body.innerHTML = `
+        <div ${ATTR.element}="${ROLES.expandAll}">Expand all</div>
+        ${faqGroup(faqItem('Q1', 'A1'))}
+      `;
+      await initModule();
+      const el = document.querySelector<HTMLElement>(`[${ATTR.element}="${ROLES.expandAll}"]`)!;
+      expect(el.getAttribute('role')).toBe('button');
+      expect(el.getAttribute('tabindex')).toBe('0');
+
+      el.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+      expect(openStates()).toEqual([true]);
+
+      window.curFaq!.get()!.destroy();
+      expect(el.hasAttribute('role')).toBe(false);
+    });
+
+    it('remembers items opened by an expand-all', async () => {
+      document.body.innerHTML = `
+        <input ${ATTR.element}="${ROLES.search}" ${ATTR.persist}="session" />
+        ${faqGroup(faqItem('Q1', 'A1') + faqItem('Q2', 'A2'))}
+      `;
+      await initModule();
+      window.curFaq!.get()!.openAll();
+      expect(JSON.parse(window.sessionStorage.getItem('cur-faq:/')!).open).toEqual(['q1', 'q2']);
+    });
+  });
+
+  describe('tag filter', () => {
+    /** An item with a `cur-faq-tags` attribute. */
+    const taggedItem = (title: string, tags: string) =>
+      faqItem(title, `About ${title}`).replace(
+        `${ATTR.element}="${ROLES.item}"`,
+        `${ATTR.element}="${ROLES.item}" ${ATTR.tags}="${tags}"`
+      );
+
+    const chip = (label: string, attrs = '') =>
+      `<button type="button" ${ATTR.element}="${ROLES.filter}" ${attrs}>${label}</button>`;
+
+    const tagPage = (searchAttrs = '') => `
+      <input type="search" ${ATTR.element}="${ROLES.search}" ${searchAttrs} />
+      ${chip('All', `${ATTR.tag}=""`)}${chip('Billing')}${chip('Account')}${chip('Shipping')}
+      <div ${ATTR.element}="${ROLES.emptyState}">No results</div>
+      ${faqGroup(taggedItem('Invoices', 'Billing') + taggedItem('Password', 'Account'))}
+      ${faqGroup(taggedItem('Card on file', 'Billing, Account'))}
+    `;
+
+    const chipEl = (label: string) =>
+      Array.from(document.querySelectorAll('button')).find((el) => el.textContent === label)!;
+
+    const shownTitles = () =>
+      window
+        .curFaq!.get()!
+        .items.filter(({ item }) => item.style.display !== 'none')
+        .map(({ title }) => title?.textContent);
+
+    it('narrows items to the clicked chip and back with the All chip', async () => {
+      document.body.innerHTML = tagPage();
+      await initModule();
+
+      chipEl('Account').click();
+      expect(shownTitles()).toEqual(['Password', 'Card on file']);
+      expect(chipEl('Account').getAttribute('aria-pressed')).toBe('true');
+      expect(chipEl('All').getAttribute('aria-pressed')).toBe('false');
+
+      chipEl('Billing').click();
+      expect(shownTitles()).toEqual(['Invoices', 'Card on file']);
+      expect(chipEl('Account').getAttribute('aria-pressed')).toBe('false');
+
+      chipEl('All').click();
+      expect(shownTitles()).toHaveLength(3);
+      expect(chipEl('All').classList.contains('is-active')).toBe(true);
+    });
+
+    it('combines several chips in all mode', async () => {
+      document.body.innerHTML = tagPage(`${ATTR.tagMode}="all"`);
+      await initModule();
+      chipEl('Billing').click();
+      chipEl('Account').click();
+      expect(shownTitles()).toEqual(['Card on file']);
+    });
+
+    it('combines several chips in any mode', async () => {
+      document.body.innerHTML = tagPage(`${ATTR.tagMode}="any"`);
+      await initModule();
+      chipEl('Billing').click();
+      chipEl('Account').click();
+      expect(shownTitles()).toHaveLength(3);
+      chipEl('Billing').click();
+      expect(shownTitles()).toEqual(['Password', 'Card on file']);
+    });
+
+    it('shows the empty state when no item has the selected tags', async () => {
+      document.body.innerHTML = tagPage();
+      await initModule();
+      const emptyState = document.querySelector<HTMLElement>(
+        `[${ATTR.element}="${ROLES.emptyState}"]`
+      )!;
+      expect(emptyState.style.display).toBe('none');
+
+      chipEl('Shipping').click();
+      expect(shownTitles()).toEqual([]);
+      expect(emptyState.style.display).toBe('');
+    });
+
+    it('searches only among the filtered items', async () => {
+      document.body.innerHTML = tagPage();
+      await initModule();
+      const faq = window.curFaq!.get()!;
+
+      faq.setFilter(['Account']);
+      faq.search('invoices');
+      expect(document.querySelectorAll('mark')).toHaveLength(0);
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('false');
+
+      faq.setFilter([]);
+      expect(document.querySelectorAll('mark')).toHaveLength(2);
+      expect(faq.items[0].item.getAttribute('data-faq-open')).toBe('true');
+    });
+
+    it('reflects the selection in the URL and restores it on load', async () => {
+      document.body.innerHTML = tagPage(`${ATTR.tagMode}="any" ${ATTR.deepLink}="true"`);
+      await initModule();
+      window.curFaq!.get()!.setFilter(['Billing', 'Gift Cards']);
+      expect(window.location.search).toBe('?faq-tags=billing%2Cgift-cards');
+
+      window.curFaq!.get()!.setFilter([]);
+      expect(window.location.search).toBe('');
+    });
+
+    it('applies ?faq-tags= on load', async () => {
+      window.history.replaceState(null, '', '/help?faq-tags=account');
+      document.body.innerHTML = tagPage(`${ATTR.deepLink}="true"`);
+      await initModule();
+      expect(shownTitles()).toEqual(['Password', 'Card on file']);
+      expect(chipEl('Account').getAttribute('aria-pressed')).toBe('true');
+    });
+
+    it('reports the selected tags in the filter event', async () => {
+      document.body.innerHTML = tagPage();
+      await initModule();
+      const listener = vi.fn();
+      document.addEventListener('cur-faq:filter', listener);
+
+      chipEl('Billing').click();
+      expect(listener.mock.calls[0][0].detail).toMatchObject({
+        tags: ['billing'],
+        visibleCount: 2,
+      });
+      document.removeEventListener('cur-faq:filter', listener);
+    });
+
+    it('keeps the parents of tagged nested items visible', async () => {
+      document.body.innerHTML = faqGroup(
+        faqItem('Billing', 'Overview').replace('</p>', `</p>${taggedItem('Refunds', 'money')}`) +
+          taggedItem('Shipping', 'delivery')
+      );
+      await initModule();
+      window.curFaq!.get()!.setFilter(['money']);
+      expect(shownTitles()).toEqual(['Billing', 'Refunds']);
+    });
+  });
+
+  describe('suggestions', () => {
+    const suggestPage = (searchAttrs = '', extra = '') => `
+      <input type="search" ${ATTR.element}="${ROLES.search}" ${ATTR.suggestions}="2" ${searchAttrs} />
+      ${extra}
+      ${faqGroup(
+        faqItem('Refund policy', 'Refunds take five days') +
+          faqItem('Gift cards', 'Refund a gift card') +
+          faqItem('Shipping', 'We ship refunds too')
+      )}
+    `;
+
+    const type = (value: string) => {
+      const input = document.querySelector<HTMLInputElement>('input')!;
+      input.value = value;
+      input.dispatchEvent(new Event('input'));
+      return input;
+    };
+
+    const press = (input: HTMLElement, key: string) =>
+      input.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+
+    const optionLabels = () =>
+      Array.from(document.querySelectorAll('[role="option"]')).map((el) => el.textContent);
+
+    it('lists the best-matching questions up to the configured count', async () => {
+      document.body.innerHTML = suggestPage();
+      await initModule();
+
+      const input = type('refund');
+      expect(input.getAttribute('role')).toBe('combobox');
+      expect(input.getAttribute('aria-expanded')).toBe('true');
+      expect(optionLabels()).toHaveLength(2);
+      expect(document.querySelector('ul.cur-faq-suggestions')).not.toBeNull();
+
+      type('  ');
+      expect(optionLabels()).toEqual([]);
+    });
+
+    it('opens and links the chosen item instead of searching', async () => {
+      document.body.innerHTML = suggestPage(`${ATTR.deepLink}="true"`);
+      await initModule();
+      vi.useFakeTimers();
+      const faq = window.curFaq!.get()!;
+
+      const input = type('shipping');
+      press(input, 'ArrowDown');
+      press(input, 'Enter');
+      vi.advanceTimersByTime(faq.config.timing.searchDebounce);
+      vi.useRealTimers();
+
+      expect(input.value).toBe('Shipping');
+      expect(faq.items[2].item.getAttribute('data-faq-open')).toBe('true');
+      expect(faq.items[2].item.hasAttribute(ATTR.dataOpenedBySearch)).toBe(false);
+      expect(document.querySelectorAll('mark')).toHaveLength(0);
+      expect(window.location.hash).toBe('#shipping');
+    });
+
+    it('only suggests items with the selected tags', async () => {
+      document.body.innerHTML = suggestPage().replace(
+        `${ATTR.element}="${ROLES.item}"`,
+        `${ATTR.element}="${ROLES.item}" ${ATTR.tags}="policies"`
+      );
+      await initModule();
+      window.curFaq!.get()!.setFilter(['policies']);
+      type('refund');
+      expect(optionLabels()).toEqual(['Refund policy']);
+    });
+
+    it('renders options from a suggestion template and restores it on destroy', async () => {
+      document.body.innerHTML = suggestPage(
+        '',
+        `<div ${ATTR.element}="${ROLES.suggestions}" class="list">
+          <a ${ATTR.element}="${ROLES.suggestion}" class="option" href="#"></a>
+        </div>`
+      );
+      await initModule();
+      const template = document.querySelector<HTMLElement>('.option')!;
+
+      type('gift');
+      const option = document.querySelector('[role="option"]')!;
+      expect(option.className).toBe('option');
+      expect(option.parentElement?.className).toBe('list');
+      expect(document.querySelector('.cur-faq-suggestions')).toBeNull();
+
+      window.curFaq!.get()!.destroy();
+      expect(document.querySelectorAll('.option')).toHaveLength(1);
+      expect(template.style.display).toBe('');
+    });
+
+    it('is off by default', async () => {
+      document.body.innerHTML = suggestPage().replace(`${ATTR.suggestions}="2"`, '');
+      await initModule();
+      expect(type('refund').hasAttribute('role')).toBe(false);
+      expect(document.querySelector('[role="listbox"]')).toBeNull();
+    });
+  });
+
+  describe('feedback', () => {
+    /** An item with "Was this helpful?" controls inside its content. */
+    const feedbackItem = (title: string, controls: string) =>
+      faqItem(title, `About ${title}`).replace(
+        '</p>',
+        `</p><div ${ATTR.element}="${ROLES.feedback}">${controls}</div>`
+      );
+
+    const votingControls = `
+      <button type="button" ${ATTR.element}="${ROLES.feedbackYes}">Yes</button>
+      <button type="button" ${ATTR.element}="${ROLES.feedbackNo}">No</button>
+      <p ${ATTR.element}="${ROLES.feedbackThanks}">Thanks!</p>
+    `;
+
+    const commentControls = `
+      <button type="button" ${ATTR.element}="${ROLES.feedbackYes}">Yes</button>
+      <button type="button" ${ATTR.element}="${ROLES.feedbackNo}">No</button>
+      <textarea ${ATTR.element}="${ROLES.feedbackComment}"></textarea>
+      <button type="button" ${ATTR.element}="${ROLES.feedbackSubmit}">Send</button>
+    `;
+
+    const control = <T extends HTMLElement = HTMLElement>(role: string) =>
+      document.querySelector<T>(`[${ATTR.element}="${role}"]`)!;
+
+    it('sends one vote per item and shows the thanks message', async () => {
+      const sendFeedback = vi.fn();
+      window.curFaqConfig = { sendFeedback };
+      document.body.innerHTML = faqGroup(feedbackItem('Refunds', votingControls));
+      await initModule();
+      const thanks = control(ROLES.feedbackThanks);
+      expect(thanks.style.display).toBe('none');
+
+      control(ROLES.feedbackNo).click();
+      control(ROLES.feedbackYes).click();
+      expect(sendFeedback).toHaveBeenCalledOnce();
+      expect(sendFeedback).toHaveBeenCalledWith({
+        instance: 'default',
+        slug: 'refunds',
+        question: 'Refunds',
+        helpful: false,
+        comment: '',
+        page: '/',
+      });
+      expect(thanks.style.display).toBe('');
+      expect(control(ROLES.feedbackNo).getAttribute('aria-pressed')).toBe('true');
+      expect(control(ROLES.feedbackYes).getAttribute('aria-disabled')).toBe('true');
+    });
+
+    it('sends the comment with the chosen answer on submit', async () => {
+      const listener = vi.fn();
+      document.addEventListener('cur-faq:feedback', listener);
+      document.body.innerHTML = faqGroup(feedbackItem('Refunds', commentControls));
+      await initModule();
+
+      control(ROLES.feedbackSubmit).click();
+      control(ROLES.feedbackYes).click();
+      expect(listener).not.toHaveBeenCalled();
+
+      control<HTMLTextAreaElement>(ROLES.feedbackComment).value = '  Clear answer ';
+      control(ROLES.feedbackSubmit).click();
+      expect(listener).toHaveBeenCalledOnce();
+      expect(listener.mock.calls[0][0].detail).toMatchObject({
+        item: document.querySelector(`[${ATTR.element}="${ROLES.item}"]`),
+        helpful: true,
+        comment: 'Clear answer',
+      });
+      document.removeEventListener('cur-faq:feedback', listener);
+    });
+
+    it('beacons votes to the feedback URL', async () => {
+      const sendBeacon = vi.fn(() => true);
+      Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true });
+      document.body.innerHTML = `
+        <input type="search" ${ATTR.element}="${ROLES.search}" ${ATTR.feedbackUrl}="http://localhost:8787/feedback" />
+        ${faqGroup(feedbackItem('Refunds', votingControls))}
+      `;
+      await initModule();
+
+      control(ROLES.feedbackYes).click();
+      expect(sendBeacon).toHaveBeenCalledWith(
+        'http://localhost:8787/feedback',
+        expect.stringContaining('"helpful":true')
+      );
+      Reflect.deleteProperty(navigator, 'sendBeacon');
+    });
+
+    it('leaves local storage alone without feedback controls', async () => {
+      const getItem = vi.spyOn(Storage.prototype, 'getItem');
+      const setItem = vi.spyOn(Storage.prototype, 'setItem');
+      document.body.innerHTML = faqGroup(faqItem('Refunds', 'About refunds'));
+      await initModule();
+      expect(getItem).not.toHaveBeenCalled();
+      expect(setItem).not.toHaveBeenCalled();
+      getItem.mockRestore();
+      setItem.mockRestore();
+    });
+
+    it('remembers votes across page loads', async () => {
+      document.body.innerHTML = faqGroup(feedbackItem('Refunds', votingControls));
+      await initModule();
+      control(ROLES.feedbackYes).click();
+      window.curFaq!.get()!.destroy();
+      expect(control(ROLES.feedbackYes).hasAttribute('aria-disabled')).toBe(false);
+
+      vi.resetModules();
+      delete window.curFaq;
+      const sendFeedback = vi.fn();
+      window.curFaqConfig = { sendFeedback };
+      await initModule();
+      expect(control(ROLES.feedback).getAttribute(ATTR.dataFeedback)).toBe('yes');
+      control(ROLES.feedbackNo).click();
+      expect(sendFeedback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('analytics', () => {
+    const analyticsPage = (attrs = '') => `
+      <input type="search" ${ATTR.element}="${ROLES.search}" ${attrs} />
+      ${faqGroup(faqItem('Refunds', 'Refund policy') + faqItem('Shipping', 'Refund shipping'))}
+    `;
+
+    it('announces moves between matches', async () => {
+      document.body.innerHTML = analyticsPage();
+      await initModule();
+      const listener = vi.fn();
+      document.addEventListener('cur-faq:navigate', listener);
+      const faq = window.curFaq!.get()!;
+
+      faq.search('refund');
+      faq.nextMatch();
+      expect(listener).toHaveBeenCalledOnce();
+      expect(listener.mock.calls[0][0].target).toBe(document.querySelectorAll('mark')[1]);
+      expect(listener.mock.calls[0][0].detail).toEqual({ query: 'refund', index: 1, total: 3 });
+      document.removeEventListener('cur-faq:navigate', listener);
+    });
+
+    it('forwards settled searches and opens to the callback', async () => {
+      const trackEvent = vi.fn();
+      window.curFaqConfig = { trackEvent, timing: { analyticsDebounce: 0 } };
+      document.body.innerHTML = analyticsPage();
+      await initModule();
+      vi.useFakeTimers();
+      const faq = window.curFaq!.get()!;
+
+      faq.search('nothing here');
+      vi.advanceTimersByTime(0);
+      faq.clearSearch();
+      document.querySelector<HTMLElement>(`[${ATTR.element}="${ROLES.trigger}"]`)!.click();
+      vi.useRealTimers();
+
+      expect(trackEvent.mock.calls.map(([event]) => event)).toEqual([
+        {
+          name: 'faq_search_no_results',
+          params: { instance: 'default', query: 'nothing here', results: 0, matches: 0 },
+        },
+        { name: 'faq_open', params: { instance: 'default', slug: 'refunds', question: 'Refunds' } },
+      ]);
+    });
+
+    it('pushes to the data layer when configured by attribute', async () => {
+      document.body.innerHTML = analyticsPage(`${ATTR.analytics}="datalayer"`);
+      await initModule();
+      window.curFaq!.get()!.open(window.curFaq!.get()!.items[1]);
+      expect(window.dataLayer).toContainEqual(
+        expect.objectContaining({ event: 'faq_open', slug: 'shipping' })
+      );
+      delete window.dataLayer;
+    });
+  });
+
   describe('destroy', () => {
     it('removes the style element', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
       await initModule();
-      window.__curFaq!.destroy();
+      window.curFaq!.get()!.destroy();
       expect(document.getElementById('cur-faq-styles')).toBeNull();
     });
 
     it('resets data attributes on items', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
       await initModule();
-      const faq = window.__curFaq!;
+      const faq = window.curFaq!.get()!;
       faq.open(faq.items[0]);
       faq.destroy();
 
@@ -417,25 +2458,25 @@ describe('FAQ module integration', () => {
     it('removes ARIA attributes from triggers', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
       await initModule();
-      window.__curFaq!.destroy();
+      window.curFaq!.get()!.destroy();
 
       const trigger = document.querySelector(`[${ATTR.element}="${ROLES.trigger}"]`)!;
       expect(trigger.hasAttribute('aria-expanded')).toBe(false);
       expect(trigger.hasAttribute('aria-controls')).toBe(false);
     });
 
-    it('clears the global references', async () => {
+    it('removes the instance from the registry', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
       await initModule();
-      window.__curFaq!.destroy();
-      expect(window.__curFaqInitialized).toBe(false);
-      expect(window.__curFaq).toBeUndefined();
+      window.curFaq!.get()!.destroy();
+      expect(window.curFaq!.get()).toBeUndefined();
+      expect(window.curFaq!.all()).toHaveLength(0);
     });
 
     it('removes hidden attribute from content', async () => {
       document.body.innerHTML = faqGroup(faqItem('Q1', 'A1'));
       await initModule();
-      window.__curFaq!.destroy();
+      window.curFaq!.get()!.destroy();
       const content = document.querySelector(`[${ATTR.element}="${ROLES.content}"]`)!;
       expect(content.hasAttribute('hidden')).toBe(false);
     });
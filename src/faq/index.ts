@@ -1,51 +1,178 @@
-import { debounce, ensureId, normalizeText, onDomReady, smoothScrollTo } from '$utils/helpers';
-
-import { ATTR, CSS_VARS, resolveConfig, resolveGroupConfig, ROLES } from './config';
-import type { FaqConfig, FaqGroup, FaqInstance, FaqItemElements, SearchState } from './types';
+import {
+  debounce,
+  ensureId,
+  foldText,
+  normalizeText,
+  onDomReady,
+  slugify,
+  smoothScrollTo,
+} from '$utils/helpers';
+
+import { bindAnalytics, createAnalyticsSender } from './analytics';
+import {
+  batchAnimations,
+  collapseElement,
+  configureAnimation,
+  expandElement,
+  hideContent,
+  resetAnimation,
+} from './animation';
+import { bindAnnouncements } from './announce';
+import { bindCombobox, type ComboboxOption } from './combobox';
+import {
+  ATTR,
+  CSS_VARS,
+  PANEL_VARS,
+  resolveConfig,
+  resolveGroupConfig,
+  resolveOptions,
+  ROLES,
+  URL_PARAMS,
+} from './config';
+import { auditFaq, renderOverlay, reportIssues } from './diagnostics';
+import {
+  createFeedbackSender,
+  feedbackKey,
+  type FeedbackVotes,
+  loadVotes,
+  saveVotes,
+} from './feedback';
+import { buildFaqPageSchema, injectJsonLd } from './jsonld';
+import { type CompiledQuery, compileQuery } from './match';
+import { formatMessage } from './messages';
+import { type FaqStorage, loadState, resolveStorage, saveState, storageKey } from './persistence';
+import { bindPrintMode } from './print';
+import { parseQuery } from './query';
+import {
+  DEFAULT_INSTANCE,
+  findInstanceRoots,
+  type InstanceRoot,
+  nameInstance,
+  queryScoped,
+  queryScopedOne,
+  scopedId,
+} from './scope';
+import { matchesTags, normalizeSelection, parseTags, toggleTag } from './tags';
+import {
+  ancestorsOf,
+  itemLevels,
+  linkItems,
+  ownPart,
+  ownTextNodes,
+  siblingsOf,
+  topLevelItems,
+} from './tree';
+import type {
+  FaqConfig,
+  FaqFeedback,
+  FaqGroup,
+  FaqGroupConfig,
+  FaqInstance,
+  FaqItemElements,
+  FaqItemRef,
+  FaqMessages,
+  FaqOptions,
+  FaqRegistry,
+  FilterGroupCount,
+  SearchResult,
+  SearchState,
+} from './types';
 
 // ---------------------------------------------------------------------------
 // DOM Parsing
 // ---------------------------------------------------------------------------
 
-/** Parse a single item element into its sub-elements. */
-const parseItem = (item: HTMLElement): FaqItemElements => ({
-  item,
-  trigger: item.querySelector<HTMLElement>(`[${ATTR.element}="${ROLES.trigger}"]`),
-  title: item.querySelector<HTMLElement>(`[${ATTR.element}="${ROLES.title}"]`),
-  content: item.querySelector<HTMLElement>(`[${ATTR.element}="${ROLES.content}"]`),
-  iconOpen: item.querySelector<HTMLElement>(`[${ATTR.element}="${ROLES.iconOpen}"]`),
-  iconClose: item.querySelector<HTMLElement>(`[${ATTR.element}="${ROLES.iconClose}"]`),
-});
+/**
+ * Parse a single item element into its sub-elements, skipping those of nested items.
+ * `parent` and `children` are linked once every item has been parsed.
+ */
+const parseItem = (item: HTMLElement): FaqItemElements => {
+  const title = ownPart(item, ROLES.title);
+  return {
+    item,
+    trigger: ownPart(item, ROLES.trigger),
+    title,
+    content: ownPart(item, ROLES.content),
+    iconOpen: ownPart(item, ROLES.iconOpen),
+    iconClose: ownPart(item, ROLES.iconClose),
+    slug: item.getAttribute(ATTR.slug)?.trim() || slugify(title?.textContent || '') || 'faq',
+    tags: parseTags(item.getAttribute(ATTR.tags)),
+    parent: null,
+    children: [],
+  };
+};
+
+/**
+ * Make item slugs unique by suffixing repeats with `-2`, `-3`, …
+ * Slugs in `used` are already taken (e.g. by items parsed earlier) and are never reassigned.
+ */
+const dedupeSlugs = (items: FaqItemElements[], used = new Set<string>()): void => {
+  items.forEach((faqItem) => {
+    let candidate = faqItem.slug;
+    for (let n = 2; used.has(candidate); n++) candidate = `${faqItem.slug}-${n}`;
+    faqItem.slug = candidate;
+    used.add(candidate);
+  });
+};
 
 /**
- * Query all FAQ groups and their child items from the DOM.
+ * Query the FAQ groups and their items belonging to an instance root. New groups resolve
+ * their config from attributes over `groupBase`. An item belongs to its closest group, so a
+ * group nested inside an item's content forms its own sub-accordion; items nested without
+ * a group of their own stay in the enclosing group. Every item is linked to its parent.
  * Items not inside any group are collected into an implicit group (groupEl = document.body).
+ * Groups and items already in `previous` are reused as-is, so a re-scan keeps their identity,
+ * config and slugs; only newly found elements are parsed.
  */
-const parseFaqGroups = (): FaqGroup[] => {
-  const groupEls = Array.from(
-    document.querySelectorAll<HTMLElement>(`[${ATTR.element}="${ROLES.group}"]`)
-  );
+const parseFaqGroups = (
+  root: HTMLElement,
+  groupBase: FaqGroupConfig,
+  previous: FaqGroup[] = []
+): FaqGroup[] => {
+  const previousGroups = new Map(previous.map((g) => [g.groupEl, g]));
+  const previousItems = new Map(previous.flatMap((g) => g.items).map((i) => [i.item, i]));
+  const parse = (el: HTMLElement) => previousItems.get(el) ?? parseItem(el);
+
+  /** Reuse the previous group object for an element, updating its items. */
+  const toGroup = (
+    groupEl: HTMLElement,
+    items: FaqItemElements[],
+    configEl: HTMLElement | null = groupEl
+  ): FaqGroup => {
+    const group = previousGroups.get(groupEl);
+    if (!group) return { groupEl, items, config: resolveGroupConfig(configEl, groupBase) };
+    group.items = items;
+    return group;
+  };
 
-  const groups: FaqGroup[] = groupEls.map((groupEl) => ({
-    groupEl,
-    items: Array.from(
-      groupEl.querySelectorAll<HTMLElement>(`[${ATTR.element}="${ROLES.item}"]`)
-    ).map(parseItem),
-    config: resolveGroupConfig(groupEl),
-  }));
+  const groupSelector = `[${ATTR.element}="${ROLES.group}"]`;
+  const groupEls = queryScoped(root, groupSelector);
+
+  const groups: FaqGroup[] = groupEls.map((groupEl) =>
+    toGroup(
+      groupEl,
+      Array.from(groupEl.querySelectorAll<HTMLElement>(`[${ATTR.element}="${ROLES.item}"]`))
+        .filter((el) => el.closest(groupSelector) === groupEl)
+        .map(parse)
+    )
+  );
 
   // Collect orphan items not inside any group element
   const groupedItems = new Set(groups.flatMap((g) => g.items.map((i) => i.item)));
-  const orphans = Array.from(
-    document.querySelectorAll<HTMLElement>(`[${ATTR.element}="${ROLES.item}"]`)
-  )
+  const orphans = queryScoped(root, `[${ATTR.element}="${ROLES.item}"]`)
     .filter((el) => !groupedItems.has(el))
-    .map(parseItem);
+    .map(parse);
 
   if (orphans.length > 0) {
-    groups.push({ groupEl: document.body, items: orphans, config: resolveGroupConfig(null) });
+    groups.push(toGroup(document.body, orphans, null));
   }
 
+  const items = groups.flatMap((g) => g.items);
+  linkItems(items);
+  dedupeSlugs(
+    items.filter((i) => !previousItems.has(i.item)),
+    new Set(items.filter((i) => previousItems.has(i.item)).map((i) => i.slug))
+  );
   return groups;
 };
 
@@ -53,13 +180,27 @@ const parseFaqGroups = (): FaqGroup[] => {
 // Search helpers
 // ---------------------------------------------------------------------------
 
-/** Check if an element's text content contains the normalised query. */
-const elementContainsText = (el: HTMLElement | null, query: string): boolean =>
-  el ? normalizeText(el.textContent || '').includes(query) : false;
+/** Text of an element that belongs to an item, leaving out the items nested inside it. */
+const ownText = (el: HTMLElement | null, item: HTMLElement): string =>
+  el
+    ? ownTextNodes(el, item)
+        .map((node) => node.nodeValue || '')
+        .join('')
+    : '';
+
+/** Normalised searchable text of an item: its own title and content together. */
+const itemText = (item: FaqItemElements, locale: string | null): string =>
+  normalizeText(`${ownText(item.title, item.item)} ${ownText(item.content, item.item)}`, locale);
 
-/** Check if an item's title or content matches the query. */
-const itemMatchesQuery = (item: FaqItemElements, query: string): boolean =>
-  elementContainsText(item.title, query) || elementContainsText(item.content, query);
+/** Question text of an item, whitespace collapsed, as shown in suggestions and feedback. */
+const questionText = (faqItem: FaqItemElements): string =>
+  ownText(faqItem.title ?? faqItem.trigger, faqItem.item)
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/** Score an item against the compiled query (0 = no match). */
+const scoreItem = (item: FaqItemElements, query: CompiledQuery, locale: string | null): number =>
+  query.score(itemText(item, locale));
 
 // ---------------------------------------------------------------------------
 // Visibility helpers
@@ -101,45 +242,39 @@ const clearHighlights = (root: HTMLElement, highlightClass: string): void => {
   });
 };
 
-/** Walk text nodes inside `root` and wrap query matches with `<mark>` tags. */
-const highlightText = (root: HTMLElement, query: string, highlightClass: string): void => {
-  if (!query) return;
-  const normalised = normalizeText(query);
-
-  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
-    acceptNode(node) {
-      return normalizeText(node.nodeValue || '').includes(normalised)
-        ? NodeFilter.FILTER_ACCEPT
-        : NodeFilter.FILTER_SKIP;
-    },
-  });
-
-  const textNodes: Text[] = [];
-  let current = walker.nextNode();
-  while (current) {
-    textNodes.push(current as Text);
-    current = walker.nextNode();
-  }
-
-  textNodes.forEach((textNode) => {
+/**
+ * Walk the text nodes inside `root` that belong to the item `owner` (nested items highlight
+ * their own text) and wrap every query term occurrence with `<mark>` tags.
+ * Each term is highlighted on its own, so a node only needs to contain one of them.
+ * Matching runs on folded text; ranges are mapped back to the original node text.
+ */
+const highlightText = (
+  root: HTMLElement,
+  owner: HTMLElement,
+  query: CompiledQuery,
+  highlightClass: string,
+  locale: string | null
+): void => {
+  ownTextNodes(root, owner).forEach((textNode) => {
     const original = textNode.nodeValue || '';
-    const lower = normalizeText(original);
+    const folded = foldText(original, locale);
+    const ranges = query.ranges(folded.text);
+    if (!ranges.length) return;
+
     const fragment = document.createDocumentFragment();
     let pos = 0;
 
-    for (;;) {
-      const idx = lower.indexOf(normalised, pos);
-      if (idx === -1) {
-        fragment.appendChild(document.createTextNode(original.slice(pos)));
-        break;
-      }
-      if (idx > pos) fragment.appendChild(document.createTextNode(original.slice(pos, idx)));
+    ranges.forEach(([start, end]) => {
+      const from = folded.starts[start];
+      const to = folded.ends[end - 1];
+      if (from > pos) fragment.appendChild(document.createTextNode(original.slice(pos, from)));
       const mark = document.createElement('mark');
       mark.className = highlightClass;
-      mark.textContent = original.slice(idx, idx + normalised.length);
+      mark.textContent = original.slice(from, to);
       fragment.appendChild(mark);
-      pos = idx + normalised.length;
-    }
+      pos = to;
+    });
+    if (pos < original.length) fragment.appendChild(document.createTextNode(original.slice(pos)));
 
     const parent = textNode.parentNode;
     if (parent) parent.replaceChild(fragment, textNode);
@@ -154,13 +289,73 @@ const highlightText = (root: HTMLElement, query: string, highlightClass: string)
 const setupAria = (item: FaqItemElements): void => {
   if (!item.trigger || !item.content) return;
   const contentId = ensureId(item.content, 'cur-faq');
+  const triggerId = ensureId(item.trigger, 'cur-faq');
   item.trigger.setAttribute('aria-controls', contentId);
+  item.content.setAttribute('role', 'region');
+  item.content.setAttribute('aria-labelledby', triggerId);
   if (!['BUTTON'].includes(item.trigger.tagName)) {
     item.trigger.setAttribute('role', 'button');
     if (!item.trigger.hasAttribute('tabindex')) item.trigger.setAttribute('tabindex', '0');
   }
 };
 
+/** Whether an item is hidden from keyboard navigation (e.g. by filter mode). */
+const isItemHidden = (item: FaqItemElements): boolean =>
+  item.item.hidden || item.item.hasAttribute(ATTR.dataFiltered);
+
+/** Triggers of the given items that can currently receive focus, in document order. */
+const focusableTriggers = (items: FaqItemElements[]): HTMLElement[] =>
+  items.flatMap((faqItem) => (faqItem.trigger && !isItemHidden(faqItem) ? [faqItem.trigger] : []));
+
+/** Make `current` the only tab stop among one nesting level's items (roving tabindex). */
+const setRovingTabStop = (items: FaqItemElements[], current: HTMLElement | null): void => {
+  items.forEach(({ trigger }) => {
+    trigger?.setAttribute('tabindex', trigger === current ? '0' : '-1');
+  });
+};
+
+/**
+ * Keep a roving-tabindex group's tab stops on focusable triggers, e.g. after filtering.
+ * Each nesting level has its own tab stop.
+ */
+const syncRovingTabindex = (group: FaqGroup): void => {
+  if (!group.config.rovingTabindex) return;
+  itemLevels(group).forEach((items) => {
+    const triggers = focusableTriggers(items);
+    const current = triggers.find((trigger) => trigger.getAttribute('tabindex') === '0');
+    setRovingTabStop(items, current ?? triggers[0] ?? null);
+  });
+};
+
+/**
+ * Trigger that a navigation key moves focus to among the items of one nesting level,
+ * following the WAI-ARIA accordion pattern: arrows move (and wrap), Home/End jump to the
+ * first/last trigger.
+ */
+const getKeyTarget = (
+  key: string,
+  items: FaqItemElements[],
+  from: HTMLElement
+): HTMLElement | null => {
+  const triggers = focusableTriggers(items);
+  const { length } = triggers;
+  if (!length) return null;
+  const index = triggers.indexOf(from);
+
+  switch (key) {
+    case 'ArrowDown':
+      return triggers[(index + 1) % length];
+    case 'ArrowUp':
+      return triggers[(index - 1 + length) % length];
+    case 'Home':
+      return triggers[0];
+    case 'End':
+      return triggers[length - 1];
+    default:
+      return null;
+  }
+};
+
 // ---------------------------------------------------------------------------
 // Icon visibility
 // ---------------------------------------------------------------------------
@@ -172,77 +367,46 @@ const setIconVisibility = (icon: HTMLElement | null, visible: boolean): void =>
   icon.classList.toggle('cur-faq-icon-hidden', !visible);
 };
 
-// ---------------------------------------------------------------------------
-// Collapse / Expand animation
-// ---------------------------------------------------------------------------
-
-/** WeakMap to track animation timestamps and prevent race conditions. */
-const animationTimestamps = new WeakMap<HTMLElement, number>();
-
-/** Expand a content element with a height transition. */
-const expandElement = (el: HTMLElement): void => {
-  const stamp = Date.now();
-  animationTimestamps.set(el, stamp);
-  el.removeAttribute('hidden');
-  el.style.height = '0px';
-  // Force reflow
-  el.offsetHeight; // eslint-disable-line @typescript-eslint/no-unused-expressions
-  const target = el.scrollHeight;
-  el.style.height = `${target}px`;
-
-  const onEnd = (e: TransitionEvent) => {
-    if (e.propertyName === 'height' && animationTimestamps.get(el) === stamp) {
-      el.removeEventListener('transitionend', onEnd);
-      el.style.height = 'auto';
-    }
-  };
-  el.addEventListener('transitionend', onEnd);
-};
-
-/** Collapse a content element with a height transition. */
-const collapseElement = (el: HTMLElement): void => {
-  const stamp = Date.now();
-  animationTimestamps.set(el, stamp);
-
-  if (el.hasAttribute('hidden')) {
-    el.style.height = '';
-    return;
-  }
-
-  const current = el.scrollHeight;
-  el.style.height = `${current}px`;
-  // Force reflow
-  el.offsetHeight; // eslint-disable-line @typescript-eslint/no-unused-expressions
-  el.style.height = '0px';
-
-  const onEnd = (e: TransitionEvent) => {
-    if (e.propertyName === 'height' && animationTimestamps.get(el) === stamp) {
-      el.removeEventListener('transitionend', onEnd);
-      el.setAttribute('hidden', '');
-      el.style.height = '';
-    }
-  };
-  el.addEventListener('transitionend', onEnd);
-};
-
 // ---------------------------------------------------------------------------
 // Core toggle
 // ---------------------------------------------------------------------------
 
-/** Set an FAQ item to open or closed, handling icons, ARIA, attributes, and animation. */
+/**
+ * Set an FAQ item to open or closed, handling icons, ARIA, attributes, and animation.
+ *
+ * A cancellable `cur-faq:beforeopen`/`beforeclose` event is dispatched first; when a listener
+ * cancels it, nothing changes and `null` is returned. Otherwise `cur-faq:open`/`close` is
+ * dispatched as the animation starts, and `cur-faq:afteropen`/`afterclose` once it has
+ * finished, unless the item was toggled again meanwhile. Changes made by `openAll`/`closeAll`
+ * (source `all`) are announced by one aggregated event instead of events per item.
+ *
+ * Resolves when the item's animation has finished.
+ */
 const setItemState = (
   item: FaqItemElements,
   open: boolean,
-  source: 'user' | 'search',
+  source: 'user' | 'search' | 'all',
   config: FaqConfig,
   searchState: SearchState,
   group?: FaqGroup
-): void => {
-  if (!item.content || !item.trigger) return;
+): Promise<void> | null => {
+  if (!item.content || !item.trigger) return Promise.resolve();
+
+  const announce = (type: string, cancelable = false) =>
+    item.item.dispatchEvent(
+      new CustomEvent(`cur-faq:${type}${open ? 'open' : 'close'}`, {
+        detail: { item: item.item },
+        bubbles: true,
+        cancelable,
+      })
+    );
 
-  // Accordion mode: close siblings before opening
+  if (source !== 'all' && !announce('before', true)) return null;
+
+  // Accordion mode: close siblings on the same nesting level before opening. Their nested
+  // items keep their own state.
   if (open && group?.config.accordion) {
-    group.items.forEach((sibling) => {
+    siblingsOf(group, item).forEach((sibling) => {
       if (sibling !== item && isItemOpen(sibling)) {
         setItemState(sibling, false, source, config, searchState);
       }
@@ -255,70 +419,439 @@ const setItemState = (
   setIconVisibility(item.iconOpen, open);
   setIconVisibility(item.iconClose, !open);
 
-  if (open) {
-    expandElement(item.content);
-    if (source === 'search') {
-      item.item.setAttribute(ATTR.dataOpenedBySearch, 'true');
-      searchState.searchOpenedItems.add(item.item);
-    } else {
-      item.item.removeAttribute(ATTR.dataOpenedBySearch);
-      searchState.searchOpenedItems.delete(item.item);
-    }
+  const animation = open ? expandElement(item.content) : collapseElement(item.content);
+  // Only an item the search opened, and that is still open, counts as opened by search
+  if (open && source === 'search') {
+    item.item.setAttribute(ATTR.dataOpenedBySearch, 'true');
+    searchState.searchOpenedItems.add(item.item);
   } else {
-    collapseElement(item.content);
-    if (source === 'search') {
-      item.item.removeAttribute(ATTR.dataOpenedBySearch);
-      searchState.searchOpenedItems.delete(item.item);
-    }
+    item.item.removeAttribute(ATTR.dataOpenedBySearch);
+    searchState.searchOpenedItems.delete(item.item);
   }
 
-  // Dispatch custom event
-  const eventName = open ? 'cur-faq:open' : 'cur-faq:close';
-  item.item.dispatchEvent(
-    new CustomEvent(eventName, { detail: { item: item.item }, bubbles: true })
-  );
+  if (source === 'all') return animation;
+
+  announce('');
+  return animation.then(() => {
+    if (isItemOpen(item) === open) announce('after');
+  });
+};
+
+/**
+ * Open an item and, outermost first, every closed item it is nested in, so it can be seen.
+ * Resolves when they have all finished opening, or at once if one of them stayed closed.
+ */
+const revealItem = (
+  item: FaqItemElements,
+  groups: FaqGroup[],
+  config: FaqConfig,
+  searchState: SearchState
+): Promise<void> => {
+  const animations: Promise<void>[] = [];
+  const targets = [...ancestorsOf(item), item].filter((target) => !isItemOpen(target));
+  // Stop at an item kept closed by a `cur-faq:beforeopen` listener: what it holds stays hidden
+  const revealed = targets.every((target) => {
+    const group = groups.find((g) => g.items.includes(target));
+    const animation = setItemState(target, true, 'user', config, searchState, group);
+    if (animation) animations.push(animation);
+    return animation !== null;
+  });
+  return revealed ? Promise.all(animations).then(() => undefined) : Promise.resolve();
 };
 
 // ---------------------------------------------------------------------------
 // Accordion: event binding
 // ---------------------------------------------------------------------------
 
-/** Bind click and keyboard listeners to FAQ triggers. Returns a cleanup function. */
-const bindAccordionListeners = (
+/**
+ * Bind click and keyboard listeners to an item's trigger, and open the item when the browser's
+ * find-in-page reveals a match in its content (`beforematch`). `onUserToggle` runs after each
+ * toggle made through either. Returns a cleanup function that also undoes `setupAria`.
+ */
+const bindItemListeners = (
+  faqItem: FaqItemElements,
+  group: FaqGroup,
+  config: FaqConfig,
+  searchState: SearchState,
+  onUserToggle?: (item: FaqItemElements, open: boolean) => void
+): (() => void) => {
+  if (!faqItem.trigger) return () => {};
+  const { trigger } = faqItem;
+  const originalRole = trigger.getAttribute('role');
+  const originalTabindex = trigger.getAttribute('tabindex');
+  setupAria(faqItem);
+
+  const handleToggle = (e?: Event) => {
+    e?.preventDefault();
+    const shouldOpen = !isItemOpen(faqItem);
+    if (setItemState(faqItem, shouldOpen, 'user', config, searchState, group)) {
+      onUserToggle?.(faqItem, shouldOpen);
+    }
+  };
+
+  const handleKeydown = (e: KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      handleToggle(e);
+      return;
+    }
+
+    const level = siblingsOf(group, faqItem);
+    const target = getKeyTarget(e.key, level, trigger);
+    if (target) {
+      e.preventDefault();
+      if (group.config.rovingTabindex) setRovingTabStop(level, target);
+      target.focus();
+    }
+  };
+
+  // Clicking or tabbing onto a trigger makes it the roving tab stop of its level
+  const handleFocus = () => {
+    if (group.config.rovingTabindex) setRovingTabStop(siblingsOf(group, faqItem), trigger);
+  };
+
+  // The browser removes `hidden` itself after `beforematch`. Opening through `setItemState`
+  // keeps ARIA, icons and accordion siblings in step; an item kept closed by a
+  // `cur-faq:beforeopen` listener is hidden again once the browser is done.
+  const handleBeforeMatch = (e: Event) => {
+    const { content } = faqItem;
+    if (!content || e.target !== content || isItemOpen(faqItem)) return;
+    if (setItemState(faqItem, true, 'user', config, searchState, group)) {
+      onUserToggle?.(faqItem, true);
+    } else {
+      window.setTimeout(() => {
+        if (!isItemOpen(faqItem)) hideContent(content);
+      });
+    }
+  };
+
+  trigger.addEventListener('click', handleToggle);
+  trigger.addEventListener('keydown', handleKeydown);
+  trigger.addEventListener('focus', handleFocus);
+  faqItem.content?.addEventListener('beforematch', handleBeforeMatch);
+
+  return () => {
+    trigger.removeEventListener('click', handleToggle);
+    trigger.removeEventListener('keydown', handleKeydown);
+    trigger.removeEventListener('focus', handleFocus);
+    faqItem.content?.removeEventListener('beforematch', handleBeforeMatch);
+    const restore = (attr: string, value: string | null) =>
+      value === null ? trigger.removeAttribute(attr) : trigger.setAttribute(attr, value);
+    restore('role', originalRole);
+    restore('tabindex', originalTabindex);
+    faqItem.content?.removeAttribute('role');
+    faqItem.content?.removeAttribute('aria-labelledby');
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Controls
+// ---------------------------------------------------------------------------
+
+/**
+ * Run `activate` when a control is clicked. Controls that aren't `<button>` elements also
+ * get `role="button"`, a tab stop and Enter/Space activation. Returns a cleanup function.
+ */
+const bindButton = (el: HTMLElement, activate: () => void): (() => void) => {
+  const originalRole = el.getAttribute('role');
+  const originalTabindex = el.getAttribute('tabindex');
+  const isButton = el.tagName === 'BUTTON';
+  if (!isButton) {
+    el.setAttribute('role', 'button');
+    if (originalTabindex === null) el.setAttribute('tabindex', '0');
+  }
+
+  const handleClick = (e: Event) => {
+    e.preventDefault();
+    activate();
+  };
+
+  const handleKeydown = (e: KeyboardEvent) => {
+    if (!isButton && (e.key === 'Enter' || e.key === ' ')) handleClick(e);
+  };
+
+  el.addEventListener('click', handleClick);
+  el.addEventListener('keydown', handleKeydown);
+
+  return () => {
+    el.removeEventListener('click', handleClick);
+    el.removeEventListener('keydown', handleKeydown);
+    if (!isButton) {
+      if (originalRole === null) el.removeAttribute('role');
+      else el.setAttribute('role', originalRole);
+      if (originalTabindex === null) el.removeAttribute('tabindex');
+    }
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Expand all / collapse all
+// ---------------------------------------------------------------------------
+
+/** Roles of the controls that open or close many items at once. */
+const BULK_ROLES = [ROLES.expandAll, ROLES.collapseAll, ROLES.toggleAll];
+
+/** The groups an expand-all or collapse-all acts on: one group, or all of them for `null`. */
+const groupsIn = (groups: FaqGroup[], groupEl: HTMLElement | null): FaqGroup[] =>
+  groupEl ? groups.filter((g) => g.groupEl === groupEl) : groups;
+
+/**
+ * Items an expand-all opens. Accordion groups keep one open item at a time, so their items
+ * are left as they are.
+ */
+const expandableItems = (groups: FaqGroup[]): FaqItemElements[] =>
+  groups
+    .filter((g) => !g.config.accordion)
+    .flatMap((g) => g.items)
+    .filter((faqItem) => faqItem.trigger && faqItem.content);
+
+/** Whether an expand-all has nothing left to open. */
+const isAllExpanded = (groups: FaqGroup[]): boolean => {
+  const items = expandableItems(groups);
+  return items.length > 0 && items.every(isItemOpen);
+};
+
+/**
+ * Open or close every item in one group (`groupEl`) or the whole instance (`null`) with
+ * batched animations, then dispatch a single `cur-faq:toggle-all` event listing the items
+ * that changed, on the group or the instance root.
+ */
+const setAllItems = (
+  root: HTMLElement,
   groups: FaqGroup[],
+  groupEl: HTMLElement | null,
+  open: boolean,
   config: FaqConfig,
   searchState: SearchState
-): (() => void) => {
-  const cleanups: (() => void)[] = [];
+): void => {
+  const scope = groupsIn(groups, groupEl);
+  const candidates = open ? expandableItems(scope) : scope.flatMap((g) => g.items);
+  const changed = candidates.filter(
+    (faqItem) => faqItem.trigger && faqItem.content && isItemOpen(faqItem) !== open
+  );
 
-  groups.forEach((group) => {
-    group.items.forEach((faqItem) => {
-      if (!faqItem.trigger) return;
-      setupAria(faqItem);
-
-      const handleToggle = (e?: Event) => {
-        e?.preventDefault();
-        const shouldOpen = !isItemOpen(faqItem);
-        setItemState(faqItem, shouldOpen, 'user', config, searchState, group);
-      };
+  batchAnimations(() => {
+    changed.forEach((faqItem) => setItemState(faqItem, open, 'all', config, searchState));
+  });
 
-      const handleKeydown = (e: KeyboardEvent) => {
-        if (e.key === 'Enter' || e.key === ' ') {
-          e.preventDefault();
-          handleToggle(e);
-        }
+  (groupEl ?? root).dispatchEvent(
+    new CustomEvent('cur-faq:toggle-all', {
+      detail: { open, items: changed.map(({ item }) => item), group: groupEl },
+      bubbles: true,
+    })
+  );
+};
+
+/**
+ * Bind an instance's expand-all, collapse-all and toggle-all controls. A control inside a
+ * `group` acts on that group, any other on the whole instance. Toggle-all controls covering
+ * only accordion groups could never expand anything, so they are left unbound (diagnostics
+ * report them). Toggle-all controls expose
+ * their state in `aria-pressed` and, when `cur-faq-collapse-label` is set, swap their text
+ * to it while everything is expanded. Non-button controls are made keyboard operable.
+ * Returns a `sync` function that refreshes toggle-all controls after items open or close,
+ * and a cleanup function.
+ */
+const bindBulkControls = (
+  root: HTMLElement,
+  groups: FaqGroup[],
+  setAll: (groupEl: HTMLElement | null, open: boolean) => void
+): { sync: () => void; cleanup: () => void } => {
+  const scopeOf = (control: HTMLElement) =>
+    control.closest<HTMLElement>(`[${ATTR.element}="${ROLES.group}"]`);
+
+  const controls = BULK_ROLES.flatMap((role) =>
+    queryScoped(root, `[${ATTR.element}="${role}"]`).map((el) => ({ el, role }))
+  ).filter(
+    ({ el, role }) =>
+      role !== ROLES.toggleAll || groupsIn(groups, scopeOf(el)).some((g) => !g.config.accordion)
+  );
+  // Labels are swapped in the control's `toggle-label` element, or in the control itself when
+  // it holds only text, so icons and other markup inside it are kept
+  const labelOf = (el: HTMLElement) =>
+    el.querySelector<HTMLElement>(`[${ATTR.element}="${ROLES.toggleLabel}"]`) ??
+    (el.children.length ? null : el);
+
+  const toggles = controls
+    .filter(({ role }) => role === ROLES.toggleAll)
+    .map(({ el }) => {
+      const labelEl = labelOf(el);
+      return {
+        el,
+        labelEl,
+        expandLabel: labelEl?.textContent ?? '',
+        collapseLabel: labelEl && el.getAttribute(ATTR.collapseLabel),
       };
+    });
+
+  const sync = () => {
+    toggles.forEach(({ el, labelEl, expandLabel, collapseLabel }) => {
+      const expanded = isAllExpanded(groupsIn(groups, scopeOf(el)));
+      el.setAttribute('aria-pressed', String(expanded));
+      if (labelEl && collapseLabel) labelEl.textContent = expanded ? collapseLabel : expandLabel;
+    });
+  };
 
-      faqItem.trigger!.addEventListener('click', handleToggle);
-      faqItem.trigger!.addEventListener('keydown', handleKeydown);
-      cleanups.push(() => {
-        faqItem.trigger!.removeEventListener('click', handleToggle);
-        faqItem.trigger!.removeEventListener('keydown', handleKeydown);
+  const cleanups = controls.map(({ el, role }) =>
+    bindButton(el, () => {
+      const groupEl = scopeOf(el);
+      const open =
+        role === ROLES.toggleAll
+          ? expandableItems(groupsIn(groups, groupEl)).some((faqItem) => !isItemOpen(faqItem))
+          : role === ROLES.expandAll;
+      setAll(groupEl, open);
+    })
+  );
+
+  sync();
+
+  return {
+    sync,
+    cleanup: () => {
+      cleanups.forEach((fn) => fn());
+      toggles.forEach(({ el, labelEl, expandLabel, collapseLabel }) => {
+        el.removeAttribute('aria-pressed');
+        if (labelEl && collapseLabel) labelEl.textContent = expandLabel;
       });
+    },
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Tag filter chips
+// ---------------------------------------------------------------------------
+
+/**
+ * Bind an instance's `filter` chips. A chip selects the tag in its `cur-faq-tag` attribute,
+ * or its text when the attribute is missing; an empty `cur-faq-tag` makes an "All" chip that
+ * clears the selection. `select` receives the new selection. Returns a `sync` function that
+ * marks the selected chips with `aria-pressed` and the active class, and a cleanup function.
+ */
+const bindFilterChips = (
+  root: HTMLElement,
+  searchState: SearchState,
+  config: FaqConfig,
+  select: (tags: string[]) => void
+): { sync: () => void; cleanup: () => void } => {
+  const chips = queryScoped(root, `[${ATTR.element}="${ROLES.filter}"]`).map((el) => ({
+    el,
+    tag: slugify(el.getAttribute(ATTR.tag) ?? el.textContent ?? ''),
+  }));
+
+  const sync = () => {
+    chips.forEach(({ el, tag }) => {
+      const pressed = tag ? searchState.tags.includes(tag) : !searchState.tags.length;
+      el.setAttribute('aria-pressed', String(pressed));
+      el.classList.toggle(config.classes.activeClass, pressed);
     });
-  });
+  };
+
+  const cleanups = chips.map(({ el, tag }) =>
+    bindButton(el, () => select(toggleTag(searchState.tags, tag, config.tagMode)))
+  );
+
+  sync();
+
+  return {
+    sync,
+    cleanup: () => {
+      cleanups.forEach((fn) => fn());
+      chips.forEach(({ el }) => {
+        el.removeAttribute('aria-pressed');
+        el.classList.remove(config.classes.activeClass);
+      });
+    },
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Feedback
+// ---------------------------------------------------------------------------
+
+/**
+ * Bind an item's "Was this helpful?" controls, if it has a `feedback` element. With a
+ * `feedback-submit` button, yes and no only pick the answer and submit sends it along with
+ * the comment; otherwise yes and no send it straight away. Each item takes one vote, after
+ * which the controls are disabled and `feedback-thanks` is shown. `readVote` returns the
+ * visitor's earlier vote on the item, if any; it is only called for items with feedback
+ * controls. Returns a cleanup function.
+ */
+const bindFeedback = (
+  faqItem: FaqItemElements,
+  readVote: () => boolean | undefined,
+  onVote: (helpful: boolean, comment: string) => void
+): (() => void) => {
+  const wrapper = ownPart(faqItem.item, ROLES.feedback);
+  if (!wrapper) return () => {};
+
+  const part = (role: string) => wrapper.querySelector<HTMLElement>(`[${ATTR.element}="${role}"]`);
+  const yes = part(ROLES.feedbackYes);
+  const no = part(ROLES.feedbackNo);
+  const submit = part(ROLES.feedbackSubmit);
+  const thanks = part(ROLES.feedbackThanks);
+  const comment = part(ROLES.feedbackComment) as HTMLInputElement | HTMLTextAreaElement | null;
+  const commentDisabled = comment?.disabled ?? false;
+  const thanksDisplay = thanks?.style.display ?? '';
+  const buttons = [yes, no, submit].filter((el): el is HTMLElement => !!el);
+
+  let voted = false;
+  let choice: boolean | null = null;
+
+  const showChoice = (helpful: boolean | null) => {
+    yes?.setAttribute('aria-pressed', String(helpful === true));
+    no?.setAttribute('aria-pressed', String(helpful === false));
+  };
 
-  return () => cleanups.forEach((fn) => fn());
+  // Disabled with aria-disabled, so a button keeps focus after it is pressed
+  const lock = (helpful: boolean) => {
+    voted = true;
+    showChoice(helpful);
+    wrapper.setAttribute(ATTR.dataFeedback, helpful ? 'yes' : 'no');
+    buttons.forEach((el) => el.setAttribute('aria-disabled', 'true'));
+    if (comment) comment.disabled = true;
+    if (thanks) thanks.style.display = thanksDisplay;
+  };
+
+  const send = (helpful: boolean) => {
+    if (voted) return;
+    lock(helpful);
+    onVote(helpful, comment?.value.trim() ?? '');
+  };
+
+  const choose = (helpful: boolean) => {
+    if (voted) return;
+    if (!submit) {
+      send(helpful);
+      return;
+    }
+    choice = helpful;
+    showChoice(helpful);
+  };
+
+  if (thanks) thanks.style.display = 'none';
+  showChoice(null);
+  const vote = readVote();
+  if (vote !== undefined) lock(vote);
+
+  const cleanups = [
+    yes && bindButton(yes, () => choose(true)),
+    no && bindButton(no, () => choose(false)),
+    submit &&
+      bindButton(submit, () => {
+        if (choice !== null) send(choice);
+      }),
+  ];
+
+  return () => {
+    cleanups.forEach((fn) => fn?.());
+    wrapper.removeAttribute(ATTR.dataFeedback);
+    buttons.forEach((el) => {
+      el.removeAttribute('aria-pressed');
+      el.removeAttribute('aria-disabled');
+    });
+    if (comment) comment.disabled = commentDisabled;
+    if (thanks) thanks.style.display = thanksDisplay;
+  };
 };
 
 // ---------------------------------------------------------------------------
@@ -326,31 +859,108 @@ const bindAccordionListeners = (
 // ---------------------------------------------------------------------------
 
 const STYLE_ID = 'cur-faq-styles';
+const JSON_LD_ID = 'cur-faq-jsonld';
+const FLOATING_SEARCH_ID = 'cur-faq-floating-search';
+const DEBUG_OVERLAY_ID = 'cur-faq-debug-overlay';
+const SUGGESTIONS_CLASS = 'cur-faq-suggestions';
+const LIVE_REGION_ID = 'cur-faq-live-region';
+
+/** A floating panel custom property, with its default as the fallback. */
+const panelVar = (key: keyof typeof PANEL_VARS): string => {
+  const [name, fallback] = PANEL_VARS[key];
+  return `var(${name}, ${fallback})`;
+};
 
-/** Inject a single `<style>` block with all FAQ behavioural styles. */
-const injectStyles = (config: FaqConfig): HTMLStyleElement => {
-  const existing = document.getElementById(STYLE_ID) as HTMLStyleElement | null;
+/**
+ * Inject an instance's `<style>` block with all FAQ behavioural styles. The instance's CSS
+ * custom properties are declared on `varScope` (`:root` for the default instance).
+ */
+const injectStyles = (config: FaqConfig, id: string, varScope: string): HTMLStyleElement => {
+  const existing = document.getElementById(id) as HTMLStyleElement | null;
   if (existing) {
     existing.remove();
   }
 
   const style = document.createElement('style');
-  style.id = STYLE_ID;
+  style.id = id;
 
   const rules: string[] = [
-    // CSS custom property defaults on :root
-    `:root {
+    // CSS custom property defaults for the instance
+    `${varScope} {
   ${CSS_VARS.highlightBg}: ${config.colors.highlightBackground};
   ${CSS_VARS.currentHighlightBg}: ${config.colors.currentHighlightBackground};
   ${CSS_VARS.collapseDuration}: ${config.timing.collapseDuration}ms;
   ${CSS_VARS.iconDuration}: ${config.timing.iconTransitionDuration}ms;
+  ${CSS_VARS.easing}: ${config.timing.easing};
 }`,
 
-    // Collapse transition
+    // Collapse transition (`height` strategy, and the default before items are set up)
     `[${ATTR.element}="${ROLES.content}"] {
   overflow: hidden;
-  transition: height var(${CSS_VARS.collapseDuration}) ease;
-  will-change: height;
+  transition: height var(${CSS_VARS.collapseDuration}) var(${CSS_VARS.easing});
+}`,
+
+    // Content hidden `until-found` keeps its box (only its contents are skipped), so it is
+    // flattened like `display: none` would
+    `[${ATTR.element}="${ROLES.content}"][hidden="until-found"] {
+  height: 0;
+  padding-block: 0;
+  border-block-width: 0;
+}`,
+
+    // `grid` strategy: the content's single child is clipped to a row growing from 0fr to 1fr
+    `[${ATTR.dataAnimation}="grid"]:not([hidden]) {
+  display: grid;
+  grid-template-rows: 0fr;
+  transition: grid-template-rows var(${CSS_VARS.collapseDuration}) var(${CSS_VARS.easing});
+}`,
+    `[${ATTR.dataAnimation}="grid"][${ATTR.dataExpanded}] {
+  grid-template-rows: 1fr;
+}`,
+    `[${ATTR.dataAnimation}="grid"] > * {
+  min-height: 0;
+  overflow: hidden;
+}`,
+
+    // `interpolate` strategy: browsers supporting `interpolate-size` transition to `height: auto`
+    `[${ATTR.dataAnimation}="interpolate"] {
+  interpolate-size: allow-keywords;
+  height: 0;
+}`,
+    `[${ATTR.dataAnimation}="interpolate"][${ATTR.dataExpanded}] {
+  height: auto;
+}`,
+
+    // `waapi` and `none` strategies are driven from script, or not at all
+    `[${ATTR.dataAnimation}="waapi"],
+[${ATTR.dataAnimation}="none"] {
+  transition: none;
+}`,
+
+    // Print: answers opened by print mode show in full, without the search controls or icons
+    `@media print {
+  [${ATTR.element}="${ROLES.content}"] {
+    height: auto !important;
+    overflow: visible;
+    transition: none;
+  }
+  [${ATTR.dataAnimation}="grid"] {
+    grid-template-rows: 1fr !important;
+  }
+  .${FLOATING_SEARCH_ID},
+  [${ATTR.element}="${ROLES.floatingPanel}"],
+  .${SUGGESTIONS_CLASS},
+  [${ATTR.element}="${ROLES.iconOpen}"],
+  [${ATTR.element}="${ROLES.iconClose}"] {
+    display: none !important;
+  }
+}`,
+
+    // Reduced motion: items toggle instantly, whatever their strategy
+    `@media (prefers-reduced-motion: reduce) {
+  [${ATTR.element}="${ROLES.content}"] {
+    transition: none;
+  }
 }`,
 
     // Icon transitions
@@ -364,6 +974,19 @@ const injectStyles = (config: FaqConfig): HTMLStyleElement => {
   pointer-events: none;
 }`,
 
+    // Screen-reader live region: kept in the accessibility tree, but not shown
+    `.${LIVE_REGION_ID} {
+  position: absolute;
+  width: 1px;
+  height: 1px;
+  margin: -1px;
+  padding: 0;
+  overflow: hidden;
+  clip-path: inset(50%);
+  white-space: nowrap;
+  border: 0;
+}`,
+
     // Highlight styles
     `.${config.classes.highlightClass} {
   background: var(${CSS_VARS.highlightBg});
@@ -373,50 +996,112 @@ const injectStyles = (config: FaqConfig): HTMLStyleElement => {
 }`,
   ];
 
-  // Floating search panel styles (conditional)
+  // Floating panel position, for the built-in panel and `floating-panel` templates alike
   if (config.floatingSearch) {
     rules.push(
-      `#cur-faq-floating-search {
+      `[${ATTR.dataPosition}] {
   position: fixed;
-  right: 16px;
-  bottom: 16px;
-  z-index: 2147483647;
+  z-index: ${panelVar('zIndex')};
+}`,
+      `[${ATTR.dataPosition}="bottom-right"] {
+  right: ${panelVar('offset')};
+  bottom: ${panelVar('offset')};
+}`,
+      `[${ATTR.dataPosition}="bottom-left"] {
+  left: ${panelVar('offset')};
+  bottom: ${panelVar('offset')};
+}`,
+      `[${ATTR.dataPosition}="top-right"] {
+  top: ${panelVar('offset')};
+  right: ${panelVar('offset')};
+}`,
+      `[${ATTR.dataPosition}="top-left"] {
+  top: ${panelVar('offset')};
+  left: ${panelVar('offset')};
+}`,
+      `[${ATTR.dataPosition}="top-bar"] {
+  top: 0;
+  left: 0;
+  right: 0;
+}`,
+      `[${ATTR.dataPosition}="docked"] {
+  position: sticky;
+  top: ${panelVar('offset')};
+}`,
+
+      // Built-in panel skin
+      `.${FLOATING_SEARCH_ID} {
   display: flex;
   align-items: center;
-  gap: 6px;
-  background: #461276;
-  color: white;
-  border: 1px solid rgba(0,0,0,.1);
-  box-shadow: 0 4px 12px rgba(0,0,0,.12);
-  border-radius: 8px;
-  padding: 6px 8px;
-  font-family: inherit;
+  gap: ${panelVar('gap')};
+  background: ${panelVar('background')};
+  color: ${panelVar('color')};
+  border: ${panelVar('border')};
+  box-shadow: ${panelVar('shadow')};
+  border-radius: ${panelVar('radius')};
+  padding: ${panelVar('padding')};
+  font-family: ${panelVar('font')};
+}`,
+      `.${FLOATING_SEARCH_ID}[${ATTR.dataPosition}="top-bar"] {
+  justify-content: center;
+  border-radius: 0;
 }`,
-      `#cur-faq-floating-search button {
+      `.${FLOATING_SEARCH_ID} button {
   border: 0;
-  background: transparent;
+  color: ${panelVar('buttonColor')};
+  background: ${panelVar('buttonBackground')};
   cursor: pointer;
-  padding: 4px 6px;
-  border-radius: 6px;
+  padding: ${panelVar('buttonPadding')};
+  border-radius: ${panelVar('buttonRadius')};
 }`,
-      `#cur-faq-floating-search button:hover {
-  background: rgba(0,0,0,.06);
+      `.${FLOATING_SEARCH_ID} button:hover {
+  background: ${panelVar('buttonHoverBackground')};
 }`,
-      `#cur-faq-floating-search input {
-  width: 180px;
-  padding: 4px 6px;
-  border: 1px solid rgba(0,0,0,.15);
-  border-radius: 6px;
-  color: black;
+      `.${FLOATING_SEARCH_ID} input {
+  width: ${panelVar('inputWidth')};
+  padding: ${panelVar('inputPadding')};
+  border: ${panelVar('inputBorder')};
+  border-radius: ${panelVar('inputRadius')};
+  background: ${panelVar('inputBackground')};
+  color: ${panelVar('inputColor')};
 }`,
-      `#cur-faq-floating-search .counter {
-  min-width: 56px;
+      `.${FLOATING_SEARCH_ID} .counter {
+  min-width: ${panelVar('counterWidth')};
   text-align: right;
   font-variant-numeric: tabular-nums;
 }`
     );
   }
 
+  // Suggestions listbox styles, for the listbox created when the page has none (conditional)
+  if (config.suggestions > 0) {
+    rules.push(
+      `.${SUGGESTIONS_CLASS} {
+  position: absolute;
+  z-index: 2147483646;
+  min-width: 240px;
+  max-height: 320px;
+  overflow-y: auto;
+  margin: 4px 0 0;
+  padding: 4px 0;
+  list-style: none;
+  background: white;
+  color: black;
+  border: 1px solid rgba(0,0,0,.1);
+  box-shadow: 0 4px 12px rgba(0,0,0,.12);
+  border-radius: 8px;
+}`,
+      `.${SUGGESTIONS_CLASS} [role="option"] {
+  padding: 6px 12px;
+  cursor: pointer;
+}`,
+      `.${SUGGESTIONS_CLASS} [role="option"]:hover,
+.${SUGGESTIONS_CLASS} [role="option"][aria-selected="true"] {
+  background: rgba(0,0,0,.06);
+}`
+    );
+  }
+
   style.textContent = rules.join('\n');
   document.head.appendChild(style);
   return style;
@@ -426,45 +1111,51 @@ const injectStyles = (config: FaqConfig): HTMLStyleElement => {
 // Search: counter
 // ---------------------------------------------------------------------------
 
-/** Update the floating panel match counter text (e.g. "2/5"). */
-const updateMatchCounter = (counterEl: HTMLElement | null, searchState: SearchState): void => {
+/** Update the floating panel match counter text (`matchCounter`, e.g. "2/5"). */
+const updateMatchCounter = (
+  counterEl: HTMLElement | null,
+  searchState: SearchState,
+  config: FaqConfig
+): void => {
   if (!counterEl) return;
   const total = searchState.marks.length;
   const current = total === 0 || searchState.currentIndex === -1 ? 0 : searchState.currentIndex + 1;
-  counterEl.textContent = `${current}/${total}`;
+  counterEl.textContent = formatMessage(config, 'matchCounter', { current, total });
 };
 
 // ---------------------------------------------------------------------------
 // Search: navigation
 // ---------------------------------------------------------------------------
 
-/** Scroll to and highlight the match at the given index. */
+/** Highlight the match at the given index and, unless `scroll` is false, scroll to it. */
 const navigateToMatch = (
   index: number,
   searchState: SearchState,
   config: FaqConfig,
-  counterEl: HTMLElement | null
+  counterEl: HTMLElement | null,
+  scroll = true
 ): void => {
   if (searchState.marks.length === 0) {
     searchState.currentIndex = -1;
-    updateMatchCounter(counterEl, searchState);
+    updateMatchCounter(counterEl, searchState, config);
     return;
   }
 
   const len = searchState.marks.length;
   searchState.currentIndex = ((index % len) + len) % len;
 
-  document
-    .querySelectorAll(`.${config.classes.currentHighlightClass}`)
-    .forEach((el) => el.classList.remove(config.classes.currentHighlightClass));
+  searchState.marks.forEach((el) => el.classList.remove(config.classes.currentHighlightClass));
 
   const target = searchState.marks[searchState.currentIndex];
   target.classList.add(config.classes.currentHighlightClass);
-  smoothScrollTo(target);
-  updateMatchCounter(counterEl, searchState);
+  if (scroll) smoothScrollTo(target);
+  updateMatchCounter(counterEl, searchState, config);
 };
 
-/** Advance the current match index by `delta` (+1 = next, -1 = prev). */
+/**
+ * Advance the current match index by `delta` (+1 = next, -1 = prev), announcing the move
+ * with a `cur-faq:navigate` event on the new current match.
+ */
 const advanceMatch = (
   delta: number,
   searchState: SearchState,
@@ -474,19 +1165,129 @@ const advanceMatch = (
   if (searchState.marks.length === 0) return;
   const base = searchState.currentIndex === -1 ? 0 : searchState.currentIndex;
   navigateToMatch(base + delta, searchState, config, counterEl);
+  searchState.marks[searchState.currentIndex].dispatchEvent(
+    new CustomEvent('cur-faq:navigate', {
+      detail: {
+        query: searchState.query,
+        index: searchState.currentIndex,
+        total: searchState.marks.length,
+      },
+      bubbles: true,
+    })
+  );
 };
 
 // ---------------------------------------------------------------------------
 // Search: empty state
 // ---------------------------------------------------------------------------
 
-/** Show or hide the empty-state element based on whether there are matches. */
-const updateEmptyState = (hasMatches: boolean): void => {
-  const emptyStateEl = document.querySelector<HTMLElement>(
-    `[${ATTR.element}="${ROLES.emptyState}"]`
+/** Show or hide an instance's empty-state element based on whether there are matches. */
+const updateEmptyState = (root: HTMLElement, hasMatches: boolean): void => {
+  const emptyStateEl = queryScopedOne(root, `[${ATTR.element}="${ROLES.emptyState}"]`);
+  if (!emptyStateEl) return;
+  emptyStateEl.style.display = hasMatches ? 'none' : '';
+};
+
+// ---------------------------------------------------------------------------
+// Search: filtering
+// ---------------------------------------------------------------------------
+
+/** Inline `display` values to restore when filtered-out elements are shown again. */
+const filteredDisplays = new WeakMap<HTMLElement, string>();
+
+/** Hide an element with inline `display: none`, or restore its previous inline display. */
+const setFilteredOut = (el: HTMLElement, filteredOut: boolean): void => {
+  const isFilteredOut = el.hasAttribute(ATTR.dataFiltered);
+  if (filteredOut && !isFilteredOut) {
+    filteredDisplays.set(el, el.style.display);
+    el.setAttribute(ATTR.dataFiltered, 'true');
+    el.style.display = 'none';
+  } else if (!filteredOut && isFilteredOut) {
+    el.style.display = filteredDisplays.get(el) ?? '';
+    filteredDisplays.delete(el);
+    el.removeAttribute(ATTR.dataFiltered);
+  }
+};
+
+/**
+ * Show only the given items, hiding groups left without any visible item.
+ * Pass `null` to show everything again. Returns the visible count for each group.
+ */
+const applyFilter = (groups: FaqGroup[], visible: Set<HTMLElement> | null): FilterGroupCount[] =>
+  groups.map((group) => {
+    const count = group.items.filter(({ item }) => {
+      const show = !visible || visible.has(item);
+      setFilteredOut(item, !show);
+      return show;
+    }).length;
+    if (group.groupEl !== document.body) setFilteredOut(group.groupEl, count === 0);
+    syncRovingTabindex(group);
+    return { group: group.groupEl, visible: count, total: group.items.length };
+  });
+
+/** Apply the filter and announce the resulting per-group counts on the instance root. */
+const filterItems = (
+  root: HTMLElement,
+  groups: FaqGroup[],
+  visible: Set<HTMLElement> | null,
+  query: string,
+  tags: string[]
+): void => {
+  const counts = applyFilter(groups, visible);
+  root.dispatchEvent(
+    new CustomEvent('cur-faq:filter', {
+      detail: {
+        query,
+        tags,
+        visibleCount: counts.reduce((sum, { visible }) => sum + visible, 0),
+        groups: counts,
+      },
+      bubbles: true,
+    })
+  );
+};
+
+/** Items with the selected tags, or `null` when no tag is selected. */
+const itemsWithTags = (
+  groups: FaqGroup[],
+  searchState: SearchState,
+  config: FaqConfig
+): FaqItemElements[] | null =>
+  searchState.tags.length
+    ? groups
+        .flatMap((g) => g.items)
+        .filter((faqItem) => matchesTags(faqItem.tags, searchState.tags, config.tagMode))
+    : null;
+
+/** Whether any item is left once the selected tags are applied. */
+const hasTaggedItems = (groups: FaqGroup[], searchState: SearchState, config: FaqConfig) =>
+  (itemsWithTags(groups, searchState, config)?.length ?? 1) > 0;
+
+/** Elements of the given items and of every item they are nested in. */
+const withAncestors = (items: FaqItemElements[]): Set<HTMLElement> =>
+  new Set(items.flatMap((faqItem) => [...ancestorsOf(faqItem), faqItem].map(({ item }) => item)));
+
+/**
+ * Hide the items without the selected tags and, in filter mode, those not in `searchShown`
+ * (the search results, `null` without a query). Neither hides nor announces anything while
+ * no tag is selected, filter mode is off and no item is hidden.
+ */
+const updateFilter = (
+  root: HTMLElement,
+  groups: FaqGroup[],
+  searchState: SearchState,
+  config: FaqConfig,
+  searchShown: Set<HTMLElement> | null,
+  query: string
+): void => {
+  const tagged = itemsWithTags(groups, searchState, config);
+  const isFiltering = groups.some((g) =>
+    g.items.some(({ item }) => item.hasAttribute(ATTR.dataFiltered))
   );
-  if (!emptyStateEl) return;
-  emptyStateEl.style.display = hasMatches ? 'none' : '';
+  if (!config.searchFilter && !tagged && !isFiltering) return;
+
+  const visible = (config.searchFilter && searchShown) || (tagged && withAncestors(tagged));
+  filterItems(root, groups, visible, query, searchState.tags);
 };
 
 // ---------------------------------------------------------------------------
@@ -499,128 +1300,163 @@ const clearAllHighlights = (
   searchState: SearchState,
   config: FaqConfig
 ): void => {
+  searchState.marks.forEach((el) => el.classList.remove(config.classes.currentHighlightClass));
   allItems.forEach(({ item }) => clearHighlights(item, config.classes.highlightClass));
-  document
-    .querySelectorAll(`.${config.classes.currentHighlightClass}`)
-    .forEach((el) => el.classList.remove(config.classes.currentHighlightClass));
   searchState.marks = [];
   searchState.currentIndex = -1;
 };
 
-/** Run a search across all FAQ items, highlighting matches and opening matching items. */
+/**
+ * Run a search across all FAQ items, highlighting matches and opening matching items. A blank
+ * query clears the search. Pass `scroll: false` to re-run a search without jumping to the
+ * first match.
+ */
 const performSearch = (
   query: string,
-  allItems: FaqItemElements[],
+  root: HTMLElement,
+  groups: FaqGroup[],
   searchState: SearchState,
   config: FaqConfig,
-  counterEl: HTMLElement | null
+  counterEl: HTMLElement | null,
+  scroll = true
 ): void => {
-  const normalised = normalizeText(query);
-  clearAllHighlights(allItems, searchState, config);
-
-  if (!normalised) {
-    updateEmptyState(true);
+  if (!query.trim()) {
+    resetSearch(root, groups, searchState, config, counterEl);
     return;
   }
 
-  // Close items that were opened by search but no longer match
+  const allItems = groups.flatMap((g) => g.items);
+  const parsed = parseQuery(normalizeText(query, config.locale));
+  clearAllHighlights(allItems, searchState, config);
+  searchState.query = query.trim();
+
+  // Only items with the selected tags can match. A query without positive terms, such as
+  // `-refund` or a lone `"`, matches nothing.
+  const compiled = compileQuery(parsed, config.searchMode, config.searchOperator);
+  const matches = (itemsWithTags(groups, searchState, config) ?? allItems)
+    .map((faqItem) => ({ faqItem, score: scoreItem(faqItem, compiled, config.locale) }))
+    .filter(({ score }) => score > 0);
+
+  // Matching items and the items they are nested in stay open
+  const shown = withAncestors(matches.map(({ faqItem }) => faqItem));
+
+  // Close items that were opened by search but no longer match or contain a match
   allItems.forEach((faqItem) => {
     if (
       searchState.searchOpenedItems.has(faqItem.item) &&
-      !itemMatchesQuery(faqItem, normalised) &&
+      !shown.has(faqItem.item) &&
       isItemOpen(faqItem)
     ) {
       setItemState(faqItem, false, 'search', config, searchState);
     }
   });
 
-  // Highlight matches and open matching items
-  allItems.forEach((faqItem) => {
-    const titleMatch = elementContainsText(faqItem.title, normalised);
-    const contentMatch = elementContainsText(faqItem.content, normalised);
-    if (titleMatch || contentMatch) {
-      if (faqItem.title) highlightText(faqItem.title, normalised, config.classes.highlightClass);
-      if (faqItem.content)
-        highlightText(faqItem.content, normalised, config.classes.highlightClass);
-      setItemState(faqItem, true, 'search', config, searchState);
-    }
+  // Highlight matches and open matching items, along with any closed ancestors
+  const results: SearchResult[] = [];
+  matches.forEach(({ faqItem, score }) => {
+    [faqItem.title, faqItem.content].forEach((el) => {
+      if (el)
+        highlightText(el, faqItem.item, compiled, config.classes.highlightClass, config.locale);
+    });
+    ancestorsOf(faqItem)
+      .filter((ancestor) => !isItemOpen(ancestor))
+      .forEach((ancestor) => setItemState(ancestor, true, 'search', config, searchState));
+    setItemState(faqItem, true, 'search', config, searchState);
+    results.push({ item: faqItem.item, score });
   });
 
+  // querySelectorAll returns marks in document order, whichever term produced them
+  const itemEls = new Set(allItems.map(({ item }) => item));
   searchState.marks = Array.from(
     document.querySelectorAll<HTMLElement>(`mark.${config.classes.highlightClass}`)
-  );
+  ).filter((mark) => {
+    const itemEl = mark.closest<HTMLElement>(`[${ATTR.element}="${ROLES.item}"]`);
+    return !!itemEl && itemEls.has(itemEl);
+  });
 
-  const hasMatches = searchState.marks.length > 0;
-  updateEmptyState(hasMatches);
+  updateFilter(root, groups, searchState, config, shown, query);
 
-  if (hasMatches) {
+  // A matching item may have no highlight, e.g. a phrase split across elements, so the
+  // empty state follows the matching items rather than the marks
+  updateEmptyState(root, matches.length > 0);
+
+  if (searchState.marks.length) {
     searchState.currentIndex = 0;
-    navigateToMatch(0, searchState, config, counterEl);
+    navigateToMatch(0, searchState, config, counterEl, scroll);
+  } else {
+    updateMatchCounter(counterEl, searchState, config);
   }
 
-  // Dispatch search event
-  document.querySelector(`[${ATTR.element}="${ROLES.group}"]`)?.dispatchEvent(
+  // Dispatch search event on the instance's first group, best-scoring items first
+  results.sort((a, b) => b.score - a.score);
+  const eventTarget = groups.find((g) => g.groupEl !== document.body)?.groupEl ?? root;
+  eventTarget.dispatchEvent(
     new CustomEvent('cur-faq:search', {
-      detail: { query, matchCount: searchState.marks.length },
+      detail: { query, matchCount: searchState.marks.length, results },
       bubbles: true,
     })
   );
 };
 
+/**
+ * Clear the search: remove highlights, close search-opened items and show every item the
+ * selected tags allow.
+ */
+const resetSearch = (
+  root: HTMLElement,
+  groups: FaqGroup[],
+  searchState: SearchState,
+  config: FaqConfig,
+  counterEl: HTMLElement | null
+): void => {
+  const allItems = groups.flatMap((g) => g.items);
+  clearAllHighlights(allItems, searchState, config);
+  searchState.query = '';
+  allItems.forEach((faqItem) => {
+    if (searchState.searchOpenedItems.has(faqItem.item) && isItemOpen(faqItem)) {
+      setItemState(faqItem, false, 'search', config, searchState);
+    }
+  });
+  updateMatchCounter(counterEl, searchState, config);
+  updateEmptyState(root, hasTaggedItems(groups, searchState, config));
+  updateFilter(root, groups, searchState, config, null, '');
+};
+
 // ---------------------------------------------------------------------------
 // Search: input binding
 // ---------------------------------------------------------------------------
 
-/** Bind search behaviour to an input element. Returns a cleanup function. */
+/**
+ * Bind search behaviour to an input element. `linkedInput` is the instance's other search
+ * input (main or floating), kept in sync with this one. `showPanel`, given for the main input,
+ * shows the floating panel while there is a query. Returns a function that drops a pending
+ * search, and a cleanup function.
+ */
 const bindSearchInput = (
   input: HTMLInputElement,
-  allItems: FaqItemElements[],
+  root: HTMLElement,
+  groups: FaqGroup[],
   searchState: SearchState,
   config: FaqConfig,
   counterEl: HTMLElement | null,
-  floatingPanel: HTMLElement | null,
-  floatingInput: HTMLInputElement | null,
-  isMainInput: boolean
-): (() => void) => {
+  showPanel: ((visible: boolean) => void) | null,
+  linkedInput: HTMLInputElement | null
+): { cancel: () => void; cleanup: () => void } => {
   const debouncedSearch = debounce(() => {
     const value = input.value || '';
 
     if (!value.trim()) {
-      clearAllHighlights(allItems, searchState, config);
-      // Close items that were opened by search
-      allItems.forEach((faqItem) => {
-        if (searchState.searchOpenedItems.has(faqItem.item) && isItemOpen(faqItem)) {
-          setItemState(faqItem, false, 'search', config, searchState);
-        }
-      });
-      updateMatchCounter(counterEl, searchState);
-      updateEmptyState(true);
-
-      if (isMainInput && floatingPanel) {
-        floatingPanel.style.display = 'none';
-      }
+      resetSearch(root, groups, searchState, config, counterEl);
+      showPanel?.(false);
       return;
     }
 
-    performSearch(value, allItems, searchState, config, counterEl);
-
-    if (isMainInput && config.floatingSearch) {
-      if (floatingPanel) floatingPanel.style.display = 'flex';
-      if (floatingInput && floatingInput !== input && floatingInput.value !== value) {
-        floatingInput.value = value;
-      }
-    }
+    performSearch(value, root, groups, searchState, config, counterEl);
+    showPanel?.(true);
 
     // Sync the other input
-    if (!isMainInput && floatingInput) {
-      const mainInput = document.querySelector<HTMLInputElement>(
-        `[${ATTR.element}="${ROLES.search}"] input[type="search"], ` +
-          `[${ATTR.element}="${ROLES.search}"] input[type="text"], ` +
-          `input[${ATTR.element}="${ROLES.search}"]`
-      );
-      if (mainInput && mainInput !== input && mainInput.value !== value) {
-        mainInput.value = value;
-      }
+    if (linkedInput && linkedInput !== input && linkedInput.value !== value) {
+      linkedInput.value = value;
     }
   }, config.timing.searchDebounce);
 
@@ -639,225 +1475,784 @@ const bindSearchInput = (
   input.addEventListener('keydown', handleKeydown);
   input.addEventListener('input', debouncedSearch);
 
-  return () => {
+  const cleanup = () => {
+    debouncedSearch.cancel();
     input.removeEventListener('keydown', handleKeydown);
     input.removeEventListener('input', debouncedSearch);
   };
+
+  return { cancel: debouncedSearch.cancel, cleanup };
 };
 
 // ---------------------------------------------------------------------------
-// Search: floating panel
+// Search: suggestions
 // ---------------------------------------------------------------------------
 
 /**
- * Create the floating search panel DOM.
- * Returns the panel element, counter element, input element, and a cleanup function.
+ * Items matching `query` among those the selected tags allow, best-scoring first and at most
+ * `config.suggestions` of them.
  */
-const createFloatingPanel = (
-  allItems: FaqItemElements[],
+const findSuggestions = (
+  query: string,
+  groups: FaqGroup[],
   searchState: SearchState,
   config: FaqConfig
-): {
-  panel: HTMLElement;
-  counter: HTMLElement;
-  input: HTMLInputElement;
-  cleanup: () => void;
-} => {
-  const panel = document.createElement('div');
-  panel.id = 'cur-faq-floating-search';
-  panel.style.display = 'none';
+): ComboboxOption<FaqItemElements>[] => {
+  const parsed = parseQuery(normalizeText(query, config.locale));
+  if (!parsed.terms.length) return [];
+  const compiled = compileQuery(parsed, config.searchMode, config.searchOperator);
+  return (itemsWithTags(groups, searchState, config) ?? groups.flatMap((g) => g.items))
+    .map((faqItem) => ({
+      faqItem,
+      label: questionText(faqItem),
+      score: scoreItem(faqItem, compiled, config.locale),
+    }))
+    .filter(({ label, score }) => label && score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, config.suggestions)
+    .map(({ faqItem, label }) => ({ label, value: faqItem }));
+};
+
+/**
+ * List matching questions under a search input as the visitor types. The listbox is the
+ * instance's `suggestions` element (a `<ul>` created after the input when there is none),
+ * with options cloned from the `suggestion` template inside it. Must be bound before
+ * `bindSearchInput()`, so choosing an option with Enter doesn't also move to the next match.
+ * Returns a cleanup function.
+ */
+const bindSuggestions = (
+  input: HTMLInputElement,
+  root: HTMLElement,
+  groups: FaqGroup[],
+  searchState: SearchState,
+  config: FaqConfig,
+  onSelect: (faqItem: FaqItemElements) => void
+): (() => void) => {
+  const existing = queryScopedOne(root, `[${ATTR.element}="${ROLES.suggestions}"]`);
+  const listbox = existing ?? document.createElement('ul');
+  if (!existing) {
+    listbox.className = SUGGESTIONS_CLASS;
+    input.after(listbox);
+  }
+  const template = listbox.querySelector<HTMLElement>(`[${ATTR.element}="${ROLES.suggestion}"]`);
+  const combobox = bindCombobox(input, listbox, template, onSelect);
+
+  const handleInput = () => {
+    combobox.show(findSuggestions(input.value, groups, searchState, config));
+  };
+
+  input.addEventListener('input', handleInput);
+
+  return () => {
+    input.removeEventListener('input', handleInput);
+    combobox.destroy();
+    if (!existing) listbox.remove();
+  };
+};
 
-  const prevBtn = document.createElement('button');
-  prevBtn.setAttribute('type', 'button');
-  prevBtn.setAttribute('aria-label', 'Previous match');
-  prevBtn.textContent = '\u2191';
+// ---------------------------------------------------------------------------
+// Search: floating panel
+// ---------------------------------------------------------------------------
+
+/** The controls of a floating panel. A `floating-panel` template may leave any of them out. */
+interface FloatingPanelParts {
+  prev: HTMLElement | null;
+  next: HTMLElement | null;
+  input: HTMLInputElement | null;
+  counter: HTMLElement | null;
+  close: HTMLElement | null;
+}
+
+/** Build the built-in floating panel: prev/next buttons, an input, a counter and a close button. */
+const buildFloatingPanel = (
+  name: string,
+  config: FaqConfig
+): { panel: HTMLElement; parts: FloatingPanelParts } => {
+  const panel = document.createElement('div');
+  panel.id = scopedId(FLOATING_SEARCH_ID, name);
+  panel.className = FLOATING_SEARCH_ID;
+
+  const button = (label: string, text: string) => {
+    const el = document.createElement('button');
+    el.setAttribute('type', 'button');
+    el.setAttribute('aria-label', label);
+    el.textContent = text;
+    return el;
+  };
 
-  const nextBtn = document.createElement('button');
-  nextBtn.setAttribute('type', 'button');
-  nextBtn.setAttribute('aria-label', 'Next match');
-  nextBtn.textContent = '\u2193';
+  const prev = button(formatMessage(config, 'previousMatch'), '\u2191');
+  const next = button(formatMessage(config, 'nextMatch'), '\u2193');
 
   const input = document.createElement('input');
   input.type = 'search';
-  input.placeholder = 'Search FAQ\u2026';
-  input.setAttribute('aria-label', 'Search FAQ');
+  input.placeholder = formatMessage(config, 'searchPlaceholder');
+  input.setAttribute('aria-label', formatMessage(config, 'searchLabel'));
 
   const counter = document.createElement('span');
   counter.className = 'counter';
-  counter.textContent = '0/0';
 
-  panel.appendChild(prevBtn);
-  panel.appendChild(nextBtn);
-  panel.appendChild(input);
-  panel.appendChild(counter);
-  document.body.appendChild(panel);
+  const close = button(formatMessage(config, 'closeSearch'), '\u00d7');
+
+  panel.append(prev, next, input, counter, close);
+  return { panel, parts: { prev, next, input, counter, close } };
+};
 
-  const handlePrev = () => advanceMatch(-1, searchState, config, counter);
-  const handleNext = () => advanceMatch(1, searchState, config, counter);
+/** Find the controls of a `floating-panel` template. Its `input` may wrap the input element. */
+const findPanelParts = (panel: HTMLElement): FloatingPanelParts => {
+  const part = (role: string) => panel.querySelector<HTMLElement>(`[${ATTR.element}="${role}"]`);
+  const inputEl = part(ROLES.input);
+  return {
+    prev: part(ROLES.prev),
+    next: part(ROLES.next),
+    input:
+      inputEl?.tagName === 'INPUT'
+        ? (inputEl as HTMLInputElement)
+        : (inputEl?.querySelector('input') ?? null),
+    counter: part(ROLES.counter),
+    close: part(ROLES.close),
+  };
+};
 
-  prevBtn.addEventListener('click', handlePrev);
-  nextBtn.addEventListener('click', handleNext);
+/** Set `attr` on `el` unless it has one already. Returns a function removing what was set. */
+const setDefaultAttr = (el: HTMLElement | null, attr: string, value: string): (() => void) => {
+  if (!el || el.hasAttribute(attr)) return () => {};
+  el.setAttribute(attr, value);
+  return () => el.removeAttribute(attr);
+};
 
-  const inputCleanup = bindSearchInput(
-    input,
-    allItems,
-    searchState,
-    config,
-    counter,
-    panel,
-    input,
-    false
-  );
+/**
+ * Set up an instance's floating search panel, kept in sync with its main search input. The
+ * panel is the instance's `floating-panel` template, used in place with its `prev`, `next`,
+ * `input`, `counter` and `close` parts, or else the built-in panel, added to the page. The
+ * close button calls `onClose`. Returns the panel's counter and input, a function showing or
+ * hiding it, and a cleanup function.
+ */
+const createFloatingPanel = (
+  root: HTMLElement,
+  name: string,
+  groups: FaqGroup[],
+  searchState: SearchState,
+  config: FaqConfig,
+  mainInput: HTMLInputElement,
+  onClose: () => void
+): {
+  counter: HTMLElement | null;
+  input: HTMLInputElement | null;
+  show: (visible: boolean) => void;
+  cleanup: () => void;
+} => {
+  const template = queryScopedOne(root, `[${ATTR.element}="${ROLES.floatingPanel}"]`);
+  const { panel, parts } = template
+    ? { panel: template, parts: findPanelParts(template) }
+    : buildFloatingPanel(name, config);
+  const { prev, next, input, counter, close } = parts;
+
+  // A template is shown with its own display value, or as flex when its styles hide it
+  const originalDisplay = panel.style.display;
+  if (originalDisplay === 'none') panel.style.display = '';
+  const styledDisplay = template ? getComputedStyle(template).display : 'flex';
+  const shownDisplay = styledDisplay === 'none' ? 'flex' : styledDisplay;
+  const show = (visible: boolean) => {
+    panel.style.display = visible ? shownDisplay : 'none';
+  };
+  show(false);
 
-  updateMatchCounter(counter, searchState);
+  panel.setAttribute(ATTR.dataPosition, config.floatingPosition);
+  if (!template) {
+    if (config.floatingPosition === 'docked') mainInput.after(panel);
+    else document.body.appendChild(panel);
+  }
+
+  // Unnamed template controls get the built-in labels
+  const labelControl = (el: HTMLElement | null, key: keyof FaqMessages) =>
+    el?.textContent?.trim()
+      ? () => {}
+      : setDefaultAttr(el, 'aria-label', formatMessage(config, key));
+  const labelCleanups = template
+    ? [
+        labelControl(prev, 'previousMatch'),
+        labelControl(next, 'nextMatch'),
+        labelControl(close, 'closeSearch'),
+        setDefaultAttr(input, 'placeholder', formatMessage(config, 'searchPlaceholder')),
+        setDefaultAttr(input, 'aria-label', formatMessage(config, 'searchLabel')),
+      ]
+    : [];
+  const originalCounterText = counter?.textContent ?? '';
+
+  const floatingSearch =
+    input && bindSearchInput(input, root, groups, searchState, config, counter, null, mainInput);
+
+  const buttonCleanups = [
+    prev && bindButton(prev, () => advanceMatch(-1, searchState, config, counter)),
+    next && bindButton(next, () => advanceMatch(1, searchState, config, counter)),
+    close &&
+      bindButton(close, () => {
+        floatingSearch?.cancel();
+        onClose();
+      }),
+  ];
+
+  updateMatchCounter(counter, searchState, config);
 
   const cleanup = () => {
-    prevBtn.removeEventListener('click', handlePrev);
-    nextBtn.removeEventListener('click', handleNext);
-    inputCleanup();
-    panel.remove();
+    buttonCleanups.forEach((fn) => fn?.());
+    floatingSearch?.cleanup();
+    if (!template) {
+      panel.remove();
+      return;
+    }
+    labelCleanups.forEach((fn) => fn());
+    if (counter) counter.textContent = originalCounterText;
+    if (input) input.value = '';
+    panel.removeAttribute(ATTR.dataPosition);
+    panel.style.display = originalDisplay;
   };
 
-  return { panel, counter, input, cleanup };
+  return { counter, input, show, cleanup };
+};
+
+// ---------------------------------------------------------------------------
+// Deep linking
+// ---------------------------------------------------------------------------
+
+/** Item slug referenced by the current URL hash (empty when there is none). */
+const readHashSlug = (): string => {
+  const hash = window.location.hash.slice(1);
+  try {
+    return decodeURIComponent(hash);
+  } catch {
+    return hash;
+  }
+};
+
+/** Search query carried by a URL parameter (`?faq-q=` by default), if any. */
+const readLinkedQuery = (param: string = URL_PARAMS.query): string =>
+  new URLSearchParams(window.location.search).get(param)?.trim() ?? '';
+
+/** Point the URL hash at an item slug (or remove it) without a history entry or a jump. */
+const writeHashSlug = (slug: string | null): void => {
+  const { pathname, search } = window.location;
+  const hash = slug ? `#${encodeURIComponent(slug)}` : '';
+  window.history.replaceState(window.history.state, '', `${pathname}${search}${hash}`);
+};
+
+/** Set a URL parameter, or remove it when `value` is empty, without a history entry. */
+const writeLinkedParam = (param: string, value: string): void => {
+  const url = new URL(window.location.href);
+  if (value) url.searchParams.set(param, value);
+  else url.searchParams.delete(param);
+  window.history.replaceState(window.history.state, '', `${url.pathname}${url.search}${url.hash}`);
+};
+
+/**
+ * Open and scroll to the item with the given slug, opening the items it is nested in.
+ * Returns whether one was found.
+ */
+const openItemBySlug = (
+  slug: string,
+  groups: FaqGroup[],
+  config: FaqConfig,
+  searchState: SearchState
+): boolean => {
+  if (!slug) return false;
+  const target = groups.flatMap((g) => g.items).find((faqItem) => faqItem.slug === slug);
+  if (!target) return false;
+  revealItem(target, groups, config, searchState);
+  smoothScrollTo(target.item);
+  return true;
 };
 
 // ---------------------------------------------------------------------------
 // Initialization
 // ---------------------------------------------------------------------------
 
-/** Initialise the FAQ module. Returns a `FaqInstance` for programmatic control. */
-const initFaq = (): FaqInstance | undefined => {
-  if (window.__curFaqInitialized) return window.__curFaq;
-  window.__curFaqInitialized = true;
+/** Apply a group's collapse duration and easing overrides via CSS variable inheritance. */
+const applyGroupStyles = (group: FaqGroup, config: FaqConfig): void => {
+  if (
+    group.groupEl !== document.body &&
+    group.config.collapseDuration !== config.timing.collapseDuration
+  ) {
+    group.groupEl.style.setProperty(
+      CSS_VARS.collapseDuration,
+      `${group.config.collapseDuration}ms`
+    );
+  }
+  if (group.groupEl !== document.body && group.config.easing !== config.timing.easing) {
+    group.groupEl.style.setProperty(CSS_VARS.easing, group.config.easing);
+  }
+};
+
+/** Put an item in its initial, closed state. */
+const initItemState = (faqItem: FaqItemElements, config: FaqConfig, group: FaqGroup): void => {
+  if (!faqItem.content) return;
+  configureAnimation(faqItem.content, {
+    strategy: group.config.animation,
+    duration: group.config.collapseDuration,
+    easing: group.config.easing,
+  });
+  hideContent(faqItem.content);
+  faqItem.item.setAttribute(ATTR.dataOpen, 'false');
+  faqItem.trigger?.setAttribute('aria-expanded', 'false');
+  faqItem.item.classList.remove(config.classes.activeClass);
+  setIconVisibility(faqItem.iconOpen, false);
+  setIconVisibility(faqItem.iconClose, true);
+};
+
+/** Selector matching the elements whose arrival or removal requires a re-scan. */
+const FAQ_NODE_SELECTOR = `[${ATTR.element}="${ROLES.item}"], [${ATTR.element}="${ROLES.group}"]`;
+
+/** Whether a node added to or removed from the DOM is, or contains, an FAQ item or group. */
+const isFaqNode = (node: Node): boolean =>
+  node instanceof HTMLElement &&
+  (node.matches(FAQ_NODE_SELECTOR) || !!node.querySelector(FAQ_NODE_SELECTOR));
+
+/** Live instances by name, in document order. */
+const instances = new Map<string, FaqInstance>();
 
-  const config = resolveConfig();
-  const groups = parseFaqGroups();
+/**
+ * Initialise one FAQ instance scoped to a root element. Configuration is layered, lowest
+ * precedence first: defaults, `window.curFaqConfig`, `window.curFaqConfig.instances[name]`,
+ * `options`, then HTML attributes.
+ */
+const createInstance = ({ root, name }: InstanceRoot, options?: FaqOptions): FaqInstance => {
+  const { instances: instanceOptions, ...sharedOptions } = window.curFaqConfig ?? {};
+  const base = resolveOptions([sharedOptions, instanceOptions?.[name], options]);
+  const searchEl = queryScopedOne(root, `[${ATTR.element}="${ROLES.search}"]`);
+  const config = resolveConfig(searchEl, base.config, root);
+  const groups = parseFaqGroups(root, base.groups);
   const allItems = groups.flatMap((g) => g.items);
 
   const searchState: SearchState = {
     marks: [],
     currentIndex: -1,
     searchOpenedItems: new Set(),
+    query: '',
+    tags: [],
   };
 
+  // Persisted state from a previous visit (opt-in)
+  const storage = config.persist ? resolveStorage(config.persist) : null;
+  const stateKey =
+    name === DEFAULT_INSTANCE ? storageKey() : storageKey(window.location.pathname, name);
+  const persisted = storage ? loadState(storage, stateKey) : null;
+
   // Inject styles
-  const styleEl = injectStyles(config);
+  const varScope = name === DEFAULT_INSTANCE ? ':root' : `#${ensureId(root, 'cur-faq')}`;
+  const styleEl = injectStyles(config, scopedId(STYLE_ID, name), varScope);
 
-  // Apply per-group collapse duration overrides via CSS variable inheritance
-  groups.forEach((group) => {
-    if (
-      group.groupEl !== document.body &&
-      group.config.collapseDuration !== config.timing.collapseDuration
-    ) {
-      group.groupEl.style.setProperty(
-        CSS_VARS.collapseDuration,
-        `${group.config.collapseDuration}ms`
-      );
-    }
-  });
+  // Structured data for FAQ rich results (opt-in)
+  const jsonLdId = scopedId(JSON_LD_ID, name);
+  let jsonLdEl = config.jsonLd ? injectJsonLd(buildFaqPageSchema(allItems), jsonLdId) : null;
+
+  // Apply per-group collapse duration and easing overrides via CSS variable inheritance
+  groups.forEach((group) => applyGroupStyles(group, config));
 
   // Set initial state: all items closed
-  allItems.forEach((faqItem) => {
-    if (faqItem.content) {
-      faqItem.content.setAttribute('hidden', '');
-      faqItem.item.setAttribute(ATTR.dataOpen, 'false');
-      faqItem.trigger?.setAttribute('aria-expanded', 'false');
-      faqItem.item.classList.remove(config.classes.activeClass);
-      setIconVisibility(faqItem.iconOpen, false);
-      setIconVisibility(faqItem.iconClose, true);
-    }
-  });
+  groups.forEach((group) =>
+    group.items.forEach((faqItem) => initItemState(faqItem, config, group))
+  );
 
-  // Default open item(s) — per-group setting
+  // Default open item(s) — per-group setting, unless the visitor's own state is restored
   groups.forEach((group) => {
-    if (group.config.defaultOpen !== null) {
-      const target = group.items[group.config.defaultOpen];
+    if (persisted) {
+      group.items
+        .filter((faqItem) => persisted.open.includes(faqItem.slug))
+        .forEach((faqItem) => setItemState(faqItem, true, 'user', config, searchState, group));
+    } else if (group.config.defaultOpen !== null) {
+      const target = topLevelItems(group)[group.config.defaultOpen];
       if (target) {
         setItemState(target, true, 'user', config, searchState, group);
       }
     }
   });
 
-  // Bind accordion listeners
-  const removeAccordionListeners = bindAccordionListeners(groups, config, searchState);
+  // "Was this helpful?" votes: one per item, remembered across visits. Storage is only
+  // touched once an item with feedback controls is bound
+  const votesKey =
+    name === DEFAULT_INSTANCE ? feedbackKey() : feedbackKey(window.location.pathname, name);
+  let voteStore: { storage: FaqStorage | null; votes: FeedbackVotes } | null = null;
+  const getVoteStore = () => {
+    if (!voteStore) {
+      const storage = resolveStorage('local');
+      voteStore = { storage, votes: storage ? loadVotes(storage, votesKey) : {} };
+    }
+    return voteStore;
+  };
+  const sendFeedback = createFeedbackSender(config);
+
+  const handleFeedback = (faqItem: FaqItemElements, helpful: boolean, comment: string) => {
+    const { storage, votes } = getVoteStore();
+    votes[faqItem.slug] = helpful;
+    if (storage) saveVotes(storage, votes, votesKey);
+    const feedback: FaqFeedback = {
+      instance: name,
+      slug: faqItem.slug,
+      question: questionText(faqItem),
+      helpful,
+      comment,
+      page: window.location.pathname,
+    };
+    faqItem.item.dispatchEvent(
+      new CustomEvent('cur-faq:feedback', {
+        detail: { item: faqItem.item, ...feedback },
+        bubbles: true,
+      })
+    );
+    sendFeedback?.(feedback);
+  };
+
+  // Bind accordion listeners, keeping the URL hash on the last item the user opened
+  const itemCleanups = new Map<HTMLElement, () => void>();
+
+  const handleUserToggle = (faqItem: FaqItemElements, open: boolean) => {
+    if (!config.deepLink) return;
+    if (open) writeHashSlug(faqItem.slug);
+    else if (readHashSlug() === faqItem.slug) writeHashSlug(null);
+  };
+
+  const bindItem = (faqItem: FaqItemElements, group: FaqGroup) => {
+    const unbindListeners = bindItemListeners(
+      faqItem,
+      group,
+      config,
+      searchState,
+      handleUserToggle
+    );
+    const unbindFeedback = bindFeedback(
+      faqItem,
+      () => getVoteStore().votes[faqItem.slug],
+      (helpful, comment) => handleFeedback(faqItem, helpful, comment)
+    );
+    itemCleanups.set(faqItem.item, () => {
+      unbindListeners();
+      unbindFeedback();
+    });
+  };
+
+  const unbindItem = (faqItem: FaqItemElements) => {
+    itemCleanups.get(faqItem.item)?.();
+    itemCleanups.delete(faqItem.item);
+  };
+
+  groups.forEach((group) => {
+    group.items.forEach((faqItem) => bindItem(faqItem, group));
+    syncRovingTabindex(group);
+  });
 
-  // Hide empty state initially
-  updateEmptyState(true);
+  // Hide empty state initially. One left empty in the markup shows the `noResults` message.
+  const emptyStateEl = queryScopedOne(root, `[${ATTR.element}="${ROLES.emptyState}"]`);
+  const fillEmptyState = !!emptyStateEl && !emptyStateEl.innerHTML.trim();
+  if (fillEmptyState) emptyStateEl.textContent = formatMessage(config, 'noResults');
+  updateEmptyState(root, true);
 
   // Search input binding
   const searchCleanups: (() => void)[] = [];
   let counterEl: HTMLElement | null = null;
-  let floatingPanel: HTMLElement | null = null;
+  let showPanel: ((visible: boolean) => void) | null = null;
   let floatingInput: HTMLInputElement | null = null;
   let floatingCleanup: (() => void) | null = null;
+  let mainInput: HTMLInputElement | null = null;
 
-  const searchEl = document.querySelector<HTMLElement>(`[${ATTR.element}="${ROLES.search}"]`);
   if (searchEl) {
     const isInput = searchEl.tagName === 'INPUT';
-    const mainInput = isInput
+    mainInput = isInput
       ? (searchEl as HTMLInputElement)
       : searchEl.querySelector<HTMLInputElement>('input[type="search"], input[type="text"]');
 
     if (mainInput) {
+      const input = mainInput;
+
       // Create floating panel if needed (must exist before binding main input)
       if (config.floatingSearch) {
-        const floating = createFloatingPanel(allItems, searchState, config);
-        floatingPanel = floating.panel;
+        // The close button clears the search and hands focus back to the main input
+        const closeSearch = () => {
+          mainSearch.cancel();
+          resetSearch(root, groups, searchState, config, counterEl);
+          showPanel?.(false);
+          input.value = '';
+          if (floatingInput) floatingInput.value = '';
+          input.focus({ preventScroll: true });
+        };
+        const floating = createFloatingPanel(
+          root,
+          name,
+          groups,
+          searchState,
+          config,
+          input,
+          closeSearch
+        );
+        showPanel = floating.show;
         counterEl = floating.counter;
         floatingInput = floating.input;
         floatingCleanup = floating.cleanup;
       }
 
-      const mainCleanup = bindSearchInput(
-        mainInput,
-        allItems,
+      // Choosing a suggestion opens that item instead of searching for its question
+      if (config.suggestions > 0) {
+        const chooseSuggestion = (faqItem: FaqItemElements) => {
+          mainSearch.cancel();
+          resetSearch(root, groups, searchState, config, counterEl);
+          showPanel?.(false);
+          if (floatingInput) floatingInput.value = '';
+          revealItem(faqItem, groups, config, searchState);
+          handleUserToggle(faqItem, true);
+          smoothScrollTo(faqItem.item);
+        };
+        searchCleanups.push(
+          bindSuggestions(input, root, groups, searchState, config, chooseSuggestion)
+        );
+      }
+
+      const mainSearch = bindSearchInput(
+        input,
+        root,
+        groups,
         searchState,
         config,
         counterEl,
-        floatingPanel,
-        floatingInput,
-        true
+        showPanel,
+        floatingInput
       );
-      searchCleanups.push(mainCleanup);
+      searchCleanups.push(mainSearch.cleanup);
+    }
+  }
+
+  // Re-run the search, or just the tag filter, over the current items without scrolling
+  const reapplyFilters = () => {
+    if (searchState.query) {
+      performSearch(searchState.query, root, groups, searchState, config, counterEl, false);
+    } else {
+      resetSearch(root, groups, searchState, config, counterEl);
     }
+  };
+
+  // Tag filter chips, with the selection mirrored in `?faq-tags=` (`?faq-tags-<name>=`)
+  const tagsParam = scopedId(URL_PARAMS.tags, name);
+
+  const selectTags = (tags: string[]) => {
+    searchState.tags = normalizeSelection(tags, config.tagMode);
+    chips.sync();
+    reapplyFilters();
+    if (config.deepLink) writeLinkedParam(tagsParam, searchState.tags.join(','));
+  };
+
+  const chips = bindFilterChips(root, searchState, config, selectTags);
+
+  if (config.deepLink) {
+    searchState.tags = normalizeSelection(parseTags(readLinkedQuery(tagsParam)), config.tagMode);
+    chips.sync();
   }
 
+  // Restore a search from `?faq-q=` (`?faq-q-<name>=` for named instances) or, failing
+  // that, the persisted state
+  const initialQuery =
+    (config.deepLink ? readLinkedQuery(scopedId(URL_PARAMS.query, name)) : '') ||
+    persisted?.query ||
+    '';
+  if (initialQuery) {
+    if (mainInput) mainInput.value = initialQuery;
+    if (floatingInput) floatingInput.value = initialQuery;
+    showPanel?.(true);
+    performSearch(initialQuery, root, groups, searchState, config, counterEl);
+  } else if (searchState.tags.length) {
+    reapplyFilters();
+  }
+
+  // Deep links: open the `#slug` item now and whenever the hash changes
+  const handleHashChange = () => {
+    openItemBySlug(readHashSlug(), groups, config, searchState);
+  };
+
+  if (config.deepLink) {
+    handleHashChange();
+    window.addEventListener('hashchange', handleHashChange);
+  }
+
+  // Persist the items the user opened and the last query whenever they change
+  const persistState = () => {
+    if (!storage) return;
+    saveState(
+      storage,
+      {
+        open: allItems
+          .filter(
+            (faqItem) => isItemOpen(faqItem) && !searchState.searchOpenedItems.has(faqItem.item)
+          )
+          .map((faqItem) => faqItem.slug),
+        query: searchState.query,
+      },
+      stateKey
+    );
+  };
+
+  const handleStateEvent = (e: Event) => {
+    if (allItems.some((faqItem) => faqItem.item === e.target)) persistState();
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') persistState();
+  };
+
+  if (storage) {
+    document.addEventListener('cur-faq:open', handleStateEvent);
+    document.addEventListener('cur-faq:close', handleStateEvent);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', persistState);
+  }
+
+  // Expand-all / collapse-all controls, kept in sync with every open and close
+  const setAll = (groupEl: HTMLElement | null, open: boolean) => {
+    setAllItems(root, groups, groupEl, open, config, searchState);
+    persistState();
+  };
+  const bulkControls = bindBulkControls(root, groups, setAll);
+  ['cur-faq:open', 'cur-faq:close', 'cur-faq:toggle-all'].forEach((type) =>
+    root.addEventListener(type, bulkControls.sync)
+  );
+
+  // Analytics (opt-in): report searches, match moves, opens and dwell time
+  const sendAnalytics = createAnalyticsSender(config);
+  const unbindAnalytics = sendAnalytics
+    ? bindAnalytics(root, name, config, sendAnalytics, (itemEl) => {
+        const faqItem = allItems.find(({ item }) => item === itemEl);
+        return faqItem ? { slug: faqItem.slug, question: questionText(faqItem) } : null;
+      })
+    : null;
+
+  // Live region announcing search results to screen readers
+  const liveRegion = document.createElement('div');
+  liveRegion.id = scopedId(LIVE_REGION_ID, name);
+  liveRegion.className = LIVE_REGION_ID;
+  liveRegion.setAttribute('role', 'status');
+  liveRegion.setAttribute('aria-live', 'polite');
+  liveRegion.setAttribute('aria-atomic', 'true');
+  document.body.appendChild(liveRegion);
+  const unbindAnnouncements = bindAnnouncements(root, liveRegion, searchState, config);
+
+  // Print mode: every answer shows while the page is printed
+  const unbindPrint = bindPrintMode(() => allItems, config.classes.highlightClass);
+
+  // Diagnostics (opt-in): audit the markup now and after every re-scan
+  let removeOverlay: (() => void) | null = null;
+
+  const runDiagnostics = () => {
+    if (!config.debug) return;
+    const issues = auditFaq(root, groups);
+    reportIssues(name, issues);
+    removeOverlay?.();
+    removeOverlay =
+      config.debug === 'overlay' ? renderOverlay(issues, scopedId(DEBUG_OVERLAY_ID, name)) : null;
+  };
+
+  runDiagnostics();
+
+  // Pick up items added or removed after init (CMS load-more, list filters)
+  const refresh = () => {
+    const previousItems = new Set(allItems);
+    const previousGroups = new Set(groups);
+    const nextGroups = parseFaqGroups(root, base.groups, groups);
+    const nextItems = nextGroups.flatMap((g) => g.items);
+    const current = new Set(nextItems);
+
+    previousItems.forEach((faqItem) => {
+      if (current.has(faqItem)) return;
+      unbindItem(faqItem);
+      searchState.searchOpenedItems.delete(faqItem.item);
+    });
+
+    groups.splice(0, groups.length, ...nextGroups);
+    allItems.splice(0, allItems.length, ...nextItems);
+
+    groups.forEach((group) => {
+      if (!previousGroups.has(group)) applyGroupStyles(group, config);
+      group.items
+        .filter((faqItem) => !previousItems.has(faqItem))
+        .forEach((faqItem) => {
+          initItemState(faqItem, config, group);
+          bindItem(faqItem, group);
+        });
+      syncRovingTabindex(group);
+    });
+
+    // Include new items in the active search and filters without scrolling the page
+    if (searchState.query || searchState.tags.length) reapplyFilters();
+
+    if (jsonLdEl) jsonLdEl = injectJsonLd(buildFaqPageSchema(allItems), jsonLdId);
+    bulkControls.sync();
+    runDiagnostics();
+  };
+
+  const observer = new MutationObserver((mutations) => {
+    const changed = mutations.some(
+      (mutation) =>
+        Array.from(mutation.addedNodes).some(isFaqNode) ||
+        Array.from(mutation.removedNodes).some(isFaqNode)
+    );
+    if (changed) refresh();
+  });
+  observer.observe(root, { childList: true, subtree: true });
+
   // Build public API
   const findGroup = (item: FaqItemElements): FaqGroup | undefined =>
     groups.find((g) => g.items.includes(item));
 
+  /** Look up an item of this instance by elements, index, slug, or an element inside it. */
+  const findItem = (ref: FaqItemRef): FaqItemElements | undefined => {
+    if (typeof ref === 'number') return allItems[ref];
+    if (typeof ref === 'string') return allItems.find(({ slug }) => slug === ref);
+    if (!(ref instanceof Element)) return allItems.includes(ref) ? ref : undefined;
+    // The innermost item wins, so an element inside a nested item addresses that item
+    for (let el: Element | null = ref; el; el = el.parentElement) {
+      const found = allItems.find(({ item }) => item === el);
+      if (found) return found;
+    }
+    return undefined;
+  };
+
   const instance: FaqInstance = {
+    name,
+    root,
     items: allItems,
     config,
 
-    open(item: FaqItemElements) {
-      setItemState(item, true, 'user', config, searchState, findGroup(item));
+    open(ref: FaqItemRef) {
+      const item = findItem(ref);
+      return item ? revealItem(item, groups, config, searchState) : Promise.resolve();
+    },
+
+    close(ref: FaqItemRef) {
+      const item = findItem(ref);
+      if (!item || !isItemOpen(item)) return Promise.resolve();
+      return (
+        setItemState(item, false, 'user', config, searchState, findGroup(item)) ?? Promise.resolve()
+      );
+    },
+
+    toggle(ref: FaqItemRef) {
+      const item = findItem(ref);
+      if (!item) return Promise.resolve();
+      return isItemOpen(item) ? instance.close(item) : instance.open(item);
     },
 
-    close(item: FaqItemElements) {
-      setItemState(item, false, 'user', config, searchState, findGroup(item));
+    openAll(groupEl?: HTMLElement) {
+      setAll(groupEl ?? null, true);
     },
 
-    toggle(item: FaqItemElements) {
-      const shouldOpen = !isItemOpen(item);
-      setItemState(item, shouldOpen, 'user', config, searchState, findGroup(item));
+    closeAll(groupEl?: HTMLElement) {
+      setAll(groupEl ?? null, false);
     },
 
     search(query: string) {
-      performSearch(query, allItems, searchState, config, counterEl);
+      performSearch(query, root, groups, searchState, config, counterEl);
     },
 
     clearSearch() {
-      clearAllHighlights(allItems, searchState, config);
-      allItems.forEach((faqItem) => {
-        if (searchState.searchOpenedItems.has(faqItem.item) && isItemOpen(faqItem)) {
-          setItemState(faqItem, false, 'search', config, searchState);
-        }
-      });
-      updateMatchCounter(counterEl, searchState);
-      updateEmptyState(true);
+      resetSearch(root, groups, searchState, config, counterEl);
     },
 
+    setFilter: selectTags,
+
     nextMatch() {
       advanceMatch(1, searchState, config, counterEl);
     },
@@ -866,15 +2261,42 @@ const initFaq = (): FaqInstance | undefined => {
       advanceMatch(-1, searchState, config, counterEl);
     },
 
+    toJsonLd() {
+      return buildFaqPageSchema(allItems);
+    },
+
+    refresh,
+
     destroy() {
-      removeAccordionListeners();
+      observer.disconnect();
+      // Show filtered items first so restoring trigger attributes is the last word
+      applyFilter(groups, null);
+      allItems.forEach(unbindItem);
+      document.removeEventListener('cur-faq:open', handleStateEvent);
+      document.removeEventListener('cur-faq:close', handleStateEvent);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', persistState);
+      window.removeEventListener('hashchange', handleHashChange);
+      ['cur-faq:open', 'cur-faq:close', 'cur-faq:toggle-all'].forEach((type) =>
+        root.removeEventListener(type, bulkControls.sync)
+      );
+      bulkControls.cleanup();
+      chips.cleanup();
+      unbindAnalytics?.();
+      unbindPrint();
+      unbindAnnouncements();
+      liveRegion.remove();
+      if (fillEmptyState) emptyStateEl.textContent = '';
       searchCleanups.forEach((fn) => fn());
       if (floatingCleanup) floatingCleanup();
       styleEl.remove();
+      jsonLdEl?.remove();
+      removeOverlay?.();
       // Remove per-group CSS var overrides
       groups.forEach((group) => {
         if (group.groupEl !== document.body) {
           group.groupEl.style.removeProperty(CSS_VARS.collapseDuration);
+          group.groupEl.style.removeProperty(CSS_VARS.easing);
         }
       });
       // Reset state
@@ -887,15 +2309,81 @@ const initFaq = (): FaqInstance | undefined => {
         faqItem.trigger?.removeAttribute('aria-controls');
         if (faqItem.content) {
           faqItem.content.removeAttribute('hidden');
-          faqItem.content.style.height = '';
+          resetAnimation(faqItem.content);
         }
       });
-      window.__curFaqInitialized = false;
-      delete window.__curFaq;
+      instances.delete(name);
     },
   };
 
-  window.__curFaq = instance;
+  return instance;
+};
+
+/** The live instance scoped to `root`, if any. */
+const findInstance = (root: HTMLElement): FaqInstance | undefined =>
+  Array.from(instances.values()).find((instance) => instance.root === root);
+
+/** Registry exposed as `window.curFaq`. */
+const registry: FaqRegistry = {
+  get(name?: string) {
+    return name === undefined ? instances.values().next().value : instances.get(name);
+  },
+
+  all() {
+    return Array.from(instances.values());
+  },
+};
+
+/**
+ * Initialise an instance for every `cur-faq-instance` root, plus the default instance for
+ * markup outside any root. The default instance is always created on pages without roots.
+ * Roots that already have an instance (e.g. from `createFaq()`) are left alone.
+ */
+const initFaq = (): FaqRegistry => {
+  // Another copy of the script already initialised the page
+  if (window.curFaq && window.curFaq !== registry) return window.curFaq;
+  window.curFaq = registry;
+
+  const roots = findInstanceRoots(registry.all());
+  const hasUnscopedMarkup =
+    queryScoped(document.body, `[${ATTR.element}="${ROLES.item}"]`).length > 0 ||
+    !!queryScopedOne(document.body, `[${ATTR.element}="${ROLES.search}"]`);
+  const needsDefault =
+    !findInstance(document.body) &&
+    (!document.querySelector(`[${ATTR.instance}]`) || hasUnscopedMarkup);
+
+  const targets: InstanceRoot[] = needsDefault
+    ? [{ root: document.body, name: DEFAULT_INSTANCE }, ...roots]
+    : roots;
+  targets.forEach((target) => instances.set(target.name, createInstance(target)));
+
+  return registry;
+};
+
+/**
+ * Create an FAQ instance for `root` with JS options (see `FaqOptions`), replacing any
+ * instance already there. A root without `cur-faq-instance` is given one, so the markup
+ * inside it leaves the enclosing instance.
+ */
+export const createFaq = (root: HTMLElement, options: FaqOptions = {}): FaqInstance => {
+  window.curFaq ??= registry;
+
+  const existing = findInstance(root);
+  existing?.destroy();
+
+  let name = existing?.name ?? DEFAULT_INSTANCE;
+  if (!existing && root !== document.body) {
+    name = nameInstance(root, instances.size + 1, new Set([DEFAULT_INSTANCE, ...instances.keys()]));
+    if (!root.hasAttribute(ATTR.instance)) root.setAttribute(ATTR.instance, name);
+    // Let enclosing instances release the items now scoped to the new root
+    registry
+      .all()
+      .filter((instance) => instance.root.contains(root))
+      .forEach((instance) => instance.refresh());
+  }
+
+  const instance = createInstance({ root, name }, options);
+  instances.set(name, instance);
   return instance;
 };
 
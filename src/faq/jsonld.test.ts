@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { ATTR, ROLES } from './config';
+import { buildFaqPageSchema, injectJsonLd, sanitizeAnswerHtml } from './jsonld';
+import type { FaqItemElements } from './types';
+
+/** Build a parsed item from question text and answer HTML. */
+const parsedItem = (question: string, answerHtml: string): FaqItemElements => {
+  const item = document.createElement('div');
+  item.setAttribute(ATTR.element, ROLES.item);
+  const title = document.createElement('span');
+  title.textContent = question;
+  const content = document.createElement('div');
+  content.innerHTML = answerHtml;
+  item.append(title, content);
+  return {
+    item,
+    trigger: null,
+    title,
+    content,
+    iconOpen: null,
+    iconClose: null,
+    slug: 'q',
+    tags: [],
+    parent: null,
+    children: [],
+  };
+};
+
+/** Sanitise an HTML snippet. */
+const sanitize = (html: string) => {
+  const el = document.createElement('div');
+  el.innerHTML = html;
+  return sanitizeAnswerHtml(el);
+};
+
+afterEach(() => {
+  document.head.innerHTML = '';
+});
+
+describe('sanitizeAnswerHtml', () => {
+  it('keeps allowed tags and strips their attributes', () => {
+    expect(sanitize('<p class="x" style="color:red">Hi <strong>there</strong></p>')).toBe(
+      '<p>Hi <strong>there</strong></p>'
+    );
+  });
+
+  it('unwraps disallowed tags but keeps their text', () => {
+    expect(sanitize('<p>Call <span class="a">us</span> <mark>now</mark></p>')).toBe(
+      '<p>Call us now</p>'
+    );
+  });
+
+  it('drops scripts and styles entirely', () => {
+    expect(sanitize('<p>Safe</p><script>alert(1)</script><style>p{}</style>')).toBe('<p>Safe</p>');
+  });
+
+  it('keeps safe links as absolute URLs and unwraps unsafe ones', () => {
+    expect(sanitize('<a href="/help" target="_blank">Help</a>')).toBe(
+      `<a href="${new URL('/help', window.location.href).href}">Help</a>`
+    );
+    expect(sanitize('<a href="javascript:alert(1)">Click</a>')).toBe('Click');
+  });
+
+  it('escapes text and collapses whitespace', () => {
+    expect(sanitize('<p>1 &lt; 2\n\n   &amp; more</p>')).toBe('<p>1 &lt; 2 &amp; more</p>');
+  });
+
+  it('keeps line breaks and lists', () => {
+    expect(sanitize('<ul><li>One<br/>Two</li></ul>')).toBe('<ul><li>One<br>Two</li></ul>');
+  });
+});
+
+describe('buildFaqPageSchema', () => {
+  it('builds a FAQPage with one question per item', () => {
+    const schema = buildFaqPageSchema([
+      parsedItem('  How do\n refunds work? ', '<p>Within <b>30</b> days.</p>'),
+    ]);
+    expect(schema).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'FAQPage',
+      mainEntity: [
+        {
+          '@type': 'Question',
+          name: 'How do refunds work?',
+          acceptedAnswer: { '@type': 'Answer', text: '<p>Within <b>30</b> days.</p>' },
+        },
+      ],
+    });
+  });
+
+  it('skips items without a question or an answer', () => {
+    const schema = buildFaqPageSchema([parsedItem('', '<p>A</p>'), parsedItem('Q', '<p> </p>')]);
+    expect(schema.mainEntity).toHaveLength(0);
+  });
+
+  it('keeps nested items out of their parent answer', () => {
+    const parent = parsedItem('Which plan?', '<p>Pick a <b>plan</b>.</p>');
+    const child = parsedItem('Can I switch?', '<p>Any time.</p>');
+    const empty = parsedItem('More', '');
+    parent.content!.appendChild(child.item);
+    empty.content!.appendChild(parsedItem('Nested', '<p>Only here.</p>').item);
+
+    const answers = buildFaqPageSchema([parent, child, empty]).mainEntity.map(
+      ({ name, acceptedAnswer }) => [name, acceptedAnswer.text]
+    );
+    expect(answers).toEqual([
+      ['Which plan?', '<p>Pick a <b>plan</b>.</p>'],
+      ['Can I switch?', '<p>Any time.</p>'],
+    ]);
+  });
+});
+
+describe('injectJsonLd', () => {
+  it('replaces an existing block with the same id', () => {
+    const schema = buildFaqPageSchema([parsedItem('Q', 'A')]);
+    injectJsonLd(schema, 'faq-ld');
+    const script = injectJsonLd(schema, 'faq-ld');
+    expect(document.querySelectorAll('#faq-ld')).toHaveLength(1);
+    expect(script.type).toBe('application/ld+json');
+    expect(JSON.parse(script.textContent!)).toEqual(schema);
+  });
+
+  it('escapes angle brackets so the script cannot be closed early', () => {
+    const script = injectJsonLd(buildFaqPageSchema([parsedItem('Q', '<p>A</p>')]), 'faq-ld');
+    expect(script.textContent).not.toContain('</p>');
+  });
+});
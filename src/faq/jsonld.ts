@@ -0,0 +1,111 @@
+import { ATTR, ROLES } from './config';
+import { ownTextNodes } from './tree';
+import type { FaqItemElements, FaqPageSchema } from './types';
+
+/** Selector matching nested items, whose questions and answers are their own `Question`s. */
+const ITEM_SELECTOR = `[${ATTR.element}="${ROLES.item}"]`;
+
+/** Tags Google accepts in FAQ answer text. Anything else is unwrapped to its text. */
+const ALLOWED_TAGS = new Set([
+  'A',
+  'B',
+  'BR',
+  'DIV',
+  'EM',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'I',
+  'LI',
+  'OL',
+  'P',
+  'STRONG',
+  'UL',
+]);
+
+/** Tags dropped together with their contents. */
+const DROPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT', 'IFRAME', 'OBJECT']);
+
+/** Link protocols kept in `href` attributes. Relative URLs are resolved against the page. */
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:', 'tel:']);
+
+/** Collapse runs of whitespace and trim. */
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/** Escape text for use inside HTML. */
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Absolute, safe `href` for a link, or `null` if it should be dropped. */
+const safeHref = (href: string | null): string | null => {
+  if (!href) return null;
+  try {
+    const url = new URL(href, window.location.href);
+    return SAFE_PROTOCOLS.has(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Serialise a node's children as sanitised HTML. */
+const sanitizeChildren = (node: Node): string =>
+  Array.from(node.childNodes).map(sanitizeNode).join('');
+
+/** Serialise a node as sanitised HTML: allowed tags without attributes (except link `href`). */
+const sanitizeNode = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeHtml((node.nodeValue || '').replace(/\s+/g, ' '));
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  if (DROPPED_TAGS.has(el.tagName) || el.matches(ITEM_SELECTOR)) return '';
+
+  const inner = sanitizeChildren(el);
+  if (!ALLOWED_TAGS.has(el.tagName)) return inner;
+
+  const tag = el.tagName.toLowerCase();
+  if (tag === 'br') return '<br>';
+  if (tag === 'a') {
+    const href = safeHref(el.getAttribute('href'));
+    return href ? `<a href="${escapeHtml(href)}">${inner}</a>` : inner;
+  }
+  return `<${tag}>${inner}</${tag}>`;
+};
+
+/**
+ * Sanitise an answer element's HTML down to the tags allowed in FAQ rich results, leaving
+ * out nested items.
+ */
+export const sanitizeAnswerHtml = (el: HTMLElement): string => sanitizeChildren(el).trim();
+
+/**
+ * Build a schema.org `FAQPage` from parsed items, skipping items without a question or answer.
+ * Each answer is the item's own content: nested items are only listed as their own questions.
+ */
+export const buildFaqPageSchema = (items: FaqItemElements[]): FaqPageSchema => ({
+  '@context': 'https://schema.org',
+  '@type': 'FAQPage',
+  mainEntity: items.flatMap(({ item, title, trigger, content }) => {
+    const name = collapseWhitespace((title ?? trigger)?.textContent || '');
+    const ownText = content ? ownTextNodes(content, item).map((node) => node.data) : [];
+    if (!name || !collapseWhitespace(ownText.join(''))) return [];
+    const text = content ? sanitizeAnswerHtml(content) : '';
+    return [{ '@type': 'Question', name, acceptedAnswer: { '@type': 'Answer', text } }];
+  }),
+});
+
+/** Insert (or replace) the `<script type="application/ld+json">` block for a schema. */
+export const injectJsonLd = (schema: FaqPageSchema, id: string): HTMLScriptElement => {
+  document.getElementById(id)?.remove();
+  const script = document.createElement('script');
+  script.type = 'application/ld+json';
+  script.id = id;
+  // Escape `<` so answer HTML can never close the script element early
+  script.textContent = JSON.stringify(schema).replace(/</g, '\\u003c');
+  document.head.appendChild(script);
+  return script;
+};
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  compileQuery,
+  createExactMatcher,
+  createFuzzyMatcher,
+  createTermMatcher,
+  editDistance,
+  maxTyposFor,
+  mergeRanges,
+} from './match';
+
+describe('editDistance', () => {
+  it('returns 0 for identical strings', () => {
+    expect(editDistance('refund', 'refund')).toBe(0);
+  });
+
+  it('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('refnd', 'refund')).toBe(1);
+    expect(editDistance('shipping', 'shiping')).toBe(1);
+    expect(editDistance('cat', 'cut')).toBe(1);
+  });
+
+  it('counts an adjacent transposition as a single edit', () => {
+    expect(editDistance('teh', 'the')).toBe(1);
+  });
+
+  it('handles empty strings', () => {
+    expect(editDistance('', 'abc')).toBe(3);
+    expect(editDistance('abc', '')).toBe(3);
+  });
+
+  it('bails out once the distance exceeds the maximum', () => {
+    expect(editDistance('password', 'billing', 2)).toBe(3);
+  });
+});
+
+describe('maxTyposFor', () => {
+  it('scales tolerance with term length', () => {
+    expect(maxTyposFor(3)).toBe(0);
+    expect(maxTyposFor(5)).toBe(1);
+    expect(maxTyposFor(8)).toBe(2);
+  });
+});
+
+describe('mergeRanges', () => {
+  it('merges overlapping and duplicate ranges', () => {
+    expect(
+      mergeRanges([
+        [0, 4],
+        [2, 6],
+        [2, 6],
+        [8, 10],
+      ])
+    ).toEqual([
+      [0, 6],
+      [8, 10],
+    ]);
+  });
+});
+
+describe('createExactMatcher', () => {
+  it('finds every occurrence with a score of 1', () => {
+    const match = createExactMatcher('ab')('ab cab');
+    expect(match.ranges).toEqual([
+      [0, 2],
+      [4, 6],
+    ]);
+    expect(match.score).toBe(1);
+  });
+
+  it('returns no ranges and a score of 0 when absent', () => {
+    expect(createExactMatcher('zz')('abc')).toEqual({ ranges: [], score: 0 });
+  });
+});
+
+describe('createFuzzyMatcher', () => {
+  it('matches misspelled words', () => {
+    const match = createFuzzyMatcher('refnd')('how do i get a refund?');
+    expect(match.ranges).toEqual([[15, 21]]);
+    expect(match.score).toBeGreaterThan(0);
+    expect(match.score).toBeLessThan(1);
+  });
+
+  it('prefers exact substring hits with a perfect score', () => {
+    expect(createFuzzyMatcher('ship')('shipping times').score).toBe(1);
+  });
+
+  it('requires every query word to match', () => {
+    const matcher = createFuzzyMatcher('shiping refnd');
+    expect(matcher('shipping and refunds').score).toBeGreaterThan(0);
+    expect(matcher('shipping only').score).toBe(0);
+  });
+
+  it('does not tolerate typos in very short words', () => {
+    expect(createFuzzyMatcher('cat')('cut').score).toBe(0);
+  });
+
+  it('scores closer matches higher', () => {
+    const matcher = createFuzzyMatcher('shiping');
+    expect(matcher('shipping').score).toBeGreaterThan(matcher('shopping').score);
+  });
+});
+
+describe('createTermMatcher', () => {
+  it('selects the strategy for the search mode', () => {
+    expect(createTermMatcher('refnd', 'exact')('refund').score).toBe(0);
+    expect(createTermMatcher('refnd', 'fuzzy')('refund').score).toBeGreaterThan(0);
+  });
+
+  it('matches quoted terms literally even in fuzzy mode', () => {
+    expect(createTermMatcher('gift crad', 'fuzzy', true)('gift card').score).toBe(0);
+    expect(createTermMatcher('gift card', 'fuzzy', true)('a gift card').score).toBe(1);
+    expect(createTermMatcher('refnd', 'fuzzy', true)('refund').score).toBe(0);
+  });
+});
+
+describe('compileQuery', () => {
+  const text = 'return policy for international orders';
+
+  it('requires every term with the and operator', () => {
+    const query = compileQuery(
+      { terms: ['return', 'international'], excluded: [], quoted: [] },
+      'exact',
+      'and'
+    );
+    expect(query.score(text)).toBe(1);
+    expect(query.score('return policy')).toBe(0);
+  });
+
+  it('accepts any term with the or operator and ranks fuller matches higher', () => {
+    const query = compileQuery(
+      { terms: ['return', 'warranty'], excluded: [], quoted: [] },
+      'exact',
+      'or'
+    );
+    expect(query.score('return policy')).toBe(0.5);
+    expect(query.score('return and warranty')).toBe(1);
+    expect(query.score('shipping')).toBe(0);
+  });
+
+  it('rules out text containing an excluded term', () => {
+    const query = compileQuery(
+      { terms: ['return'], excluded: ['international'], quoted: [] },
+      'exact',
+      'and'
+    );
+    expect(query.score(text)).toBe(0);
+    expect(query.score('return policy')).toBe(1);
+  });
+
+  it('matches quoted words literally in fuzzy mode', () => {
+    const query = compileQuery(
+      { terms: ['refnd', 'polcy'], excluded: [], quoted: ['polcy'] },
+      'fuzzy',
+      'and'
+    );
+    expect(query.score('refund polcy')).toBeGreaterThan(0);
+    expect(query.score('refund policy')).toBe(0);
+  });
+
+  it('never matches without positive terms', () => {
+    expect(
+      compileQuery({ terms: [], excluded: ['x'], quoted: [] }, 'exact', 'or').score(text)
+    ).toBe(0);
+  });
+
+  it('returns ranges for each term independently, in order', () => {
+    const query = compileQuery(
+      { terms: ['international', 'return'], excluded: [], quoted: [] },
+      'exact',
+      'and'
+    );
+    expect(query.ranges('return policy')).toEqual([[0, 6]]);
+    expect(query.ranges(text)).toEqual([
+      [0, 6],
+      [18, 31],
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+import type { ParsedQuery } from './query';
+import type { SearchMode, SearchOperator } from './types';
+
+/** A half-open `[start, end)` character range within a normalised string. */
+export type MatchRange = [start: number, end: number];
+
+/** Result of running a matcher over a piece of text. */
+export interface TextMatch {
+  ranges: MatchRange[];
+  /** Relevance between 0 (no match) and 1 (exact match). */
+  score: number;
+}
+
+/** Finds query matches inside an already-lowercased string. */
+export type Matcher = (text: string) => TextMatch;
+
+const NO_MATCH: TextMatch = { ranges: [], score: 0 };
+
+/** Word tokens (letters and digits) used by fuzzy matching. */
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Edit distance between two strings (optimal string alignment: insertions, deletions,
+ * substitutions and adjacent transpositions each cost 1).
+ * Bails out early with `max + 1` once the distance is known to exceed `max`.
+ */
+export const editDistance = (a: string, b: string, max = Infinity): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+
+  return prev[b.length];
+};
+
+/** Number of typos tolerated for a query term of the given length. */
+export const maxTyposFor = (length: number): number => {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+};
+
+/** Find every occurrence of `needle` in `text`. */
+const findExactRanges = (text: string, needle: string): MatchRange[] => {
+  const ranges: MatchRange[] = [];
+  if (!needle) return ranges;
+  let pos = text.indexOf(needle);
+  while (pos !== -1) {
+    ranges.push([pos, pos + needle.length]);
+    pos = text.indexOf(needle, pos + needle.length);
+  }
+  return ranges;
+};
+
+/** Merge overlapping or duplicate ranges. Expects ranges sorted by start. */
+export const mergeRanges = (ranges: MatchRange[]): MatchRange[] =>
+  ranges.reduce<MatchRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+    return merged;
+  }, []);
+
+/** Matcher that finds exact substring occurrences of the query. */
+export const createExactMatcher =
+  (query: string): Matcher =>
+  (text) => {
+    const ranges = findExactRanges(text, query);
+    return ranges.length ? { ranges, score: 1 } : NO_MATCH;
+  };
+
+/**
+ * Matcher that tolerates typos. Exact substring hits score 1; otherwise every query word
+ * must approximately match at least one word in the text, and the score is the mean
+ * similarity of the best match for each query word.
+ */
+export const createFuzzyMatcher = (query: string): Matcher => {
+  const exact = createExactMatcher(query);
+  const terms = query.match(WORD_PATTERN) ?? [];
+
+  return (text) => {
+    const exactMatch = exact(text);
+    if (exactMatch.score > 0 || !terms.length) return exactMatch;
+
+    const words = Array.from(text.matchAll(WORD_PATTERN));
+    const ranges: MatchRange[] = [];
+    let total = 0;
+
+    for (const term of terms) {
+      const allowed = maxTyposFor(term.length);
+      let best = 0;
+
+      for (const word of words) {
+        const [value] = word;
+        // Also compare against the word's prefix so "refnd" still finds "refunds"
+        const stem = value.slice(0, term.length + 1);
+        const distance = Math.min(
+          editDistance(term, value, allowed),
+          editDistance(term, stem, allowed)
+        );
+        if (distance > allowed) continue;
+        const similarity = 1 - distance / Math.max(term.length, stem.length);
+        best = Math.max(best, similarity);
+        ranges.push([word.index, word.index + value.length]);
+      }
+
+      if (best === 0) return NO_MATCH;
+      total += best;
+    }
+
+    ranges.sort((a, b) => a[0] - b[0]);
+    return { ranges: mergeRanges(ranges), score: total / terms.length };
+  };
+};
+
+/** Build the matcher for a single term. Quoted terms always match literally. */
+export const createTermMatcher = (term: string, mode: SearchMode, quoted = false): Matcher =>
+  mode === 'fuzzy' && !quoted ? createFuzzyMatcher(term) : createExactMatcher(term);
+
+/** A parsed query ready to run against item text. */
+export interface CompiledQuery {
+  /** Score a whole item's text between 0 (no match) and 1. */
+  score(text: string): number;
+  /** Ranges of every wanted term inside a piece of text, for highlighting. */
+  ranges(text: string): MatchRange[];
+}
+
+/**
+ * Compile a parsed query. With the `and` operator every term must match; with `or` any
+ * term is enough. Items containing an excluded term never match. The score is the mean
+ * of the per-term scores, so items matching more terms rank higher under `or`.
+ */
+export const compileQuery = (
+  query: ParsedQuery,
+  mode: SearchMode,
+  operator: SearchOperator
+): CompiledQuery => {
+  const matchers = query.terms.map((term) =>
+    createTermMatcher(term, mode, query.quoted.includes(term))
+  );
+  const exclusions = query.excluded.map((term) => createExactMatcher(term));
+
+  return {
+    score(text) {
+      if (!matchers.length || exclusions.some((matcher) => matcher(text).score > 0)) return 0;
+      const scores = matchers.map((matcher) => matcher(text).score);
+      const matched = operator === 'and' ? scores.every(Boolean) : scores.some(Boolean);
+      return matched ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+    },
+
+    ranges(text) {
+      const ranges = matchers.flatMap((matcher) => matcher(text).ranges);
+      ranges.sort((a, b) => a[0] - b[0]);
+      return mergeRanges(ranges);
+    },
+  };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import { BUILT_IN_MESSAGES, formatMessage, messagesFor } from './messages';
+import type { FaqMessages } from './types';
+
+const config = (locale: string | null, messages: Partial<FaqMessages> = {}) => ({
+  locale,
+  messages,
+});
+
+describe('messagesFor', () => {
+  it('picks the messages of the tag, then of its language, then English', () => {
+    expect(messagesFor('de')).toBe(BUILT_IN_MESSAGES.de);
+    expect(messagesFor('pt-BR')).toBe(BUILT_IN_MESSAGES.pt);
+    expect(messagesFor('ja')).toBe(BUILT_IN_MESSAGES.en);
+    expect(messagesFor(null)).toBe(BUILT_IN_MESSAGES.en);
+  });
+
+  it('has every message in every language', () => {
+    const keys = Object.keys(BUILT_IN_MESSAGES.en).sort();
+    Object.values(BUILT_IN_MESSAGES).forEach((messages) => {
+      expect(Object.keys(messages).sort()).toEqual(keys);
+    });
+  });
+});
+
+describe('formatMessage', () => {
+  it('fills in placeholders, formatting numbers for the locale', () => {
+    expect(formatMessage(config('en'), 'matchCounter', { current: 2, total: 5 })).toBe('2/5');
+    expect(formatMessage(config('de'), 'matchCounter', { current: 1, total: 1200 })).toBe(
+      '1/1.200'
+    );
+  });
+
+  it('picks the plural form for the count', () => {
+    expect(formatMessage(config('en'), 'resultCount', { total: 1 }, 1)).toBe('1 result');
+    expect(formatMessage(config('en'), 'resultCount', { total: 12 }, 12)).toBe('12 results');
+  });
+
+  it('prefers overrides, including plural forms separated by |', () => {
+    const messages = { resultCount: 'jeden wynik|{total} wyniki|{total} wyników|{total} wyniku' };
+    const format = (count: number) =>
+      formatMessage(config('pl', messages), 'resultCount', { total: count }, count);
+    expect(format(1)).toBe('jeden wynik');
+    expect(format(3)).toBe('3 wyniki');
+    expect(format(5)).toBe('5 wyników');
+    expect(formatMessage(config('fr', { noResults: 'Rien' }), 'noResults')).toBe('Rien');
+  });
+
+  it('leaves unknown placeholders in place', () => {
+    expect(formatMessage(config(null, { noResults: 'No {thing}' }), 'noResults')).toBe(
+      'No {thing}'
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import type { FaqConfig, FaqMessages, PluralCategory, PluralMessage } from './types';
+
+/** Locale of the messages used when the page's language has none built in. */
+const FALLBACK_LOCALE = 'en';
+
+/** Built-in messages, by language. */
+export const BUILT_IN_MESSAGES: Record<string, FaqMessages> = {
+  en: {
+    searchPlaceholder: 'Search FAQ…',
+    searchLabel: 'Search FAQ',
+    previousMatch: 'Previous match',
+    nextMatch: 'Next match',
+    matchCounter: '{current}/{total}',
+    closeSearch: 'Close search',
+    resultCount: { one: '{total} result', other: '{total} results' },
+    matchPosition: 'Match {current} of {total}',
+    noResults: 'No results found',
+  },
+  de: {
+    searchPlaceholder: 'FAQ durchsuchen…',
+    searchLabel: 'FAQ durchsuchen',
+    previousMatch: 'Vorheriger Treffer',
+    nextMatch: 'Nächster Treffer',
+    matchCounter: '{current}/{total}',
+    closeSearch: 'Suche schließen',
+    resultCount: { one: '{total} Ergebnis', other: '{total} Ergebnisse' },
+    matchPosition: 'Treffer {current} von {total}',
+    noResults: 'Keine Ergebnisse gefunden',
+  },
+  fr: {
+    searchPlaceholder: 'Rechercher dans la FAQ…',
+    searchLabel: 'Rechercher dans la FAQ',
+    previousMatch: 'Résultat précédent',
+    nextMatch: 'Résultat suivant',
+    matchCounter: '{current}/{total}',
+    closeSearch: 'Fermer la recherche',
+    resultCount: { one: '{total} résultat', other: '{total} résultats' },
+    matchPosition: 'Correspondance {current} sur {total}',
+    noResults: 'Aucun résultat',
+  },
+  es: {
+    searchPlaceholder: 'Buscar en las preguntas frecuentes…',
+    searchLabel: 'Buscar en las preguntas frecuentes',
+    previousMatch: 'Resultado anterior',
+    nextMatch: 'Resultado siguiente',
+    matchCounter: '{current}/{total}',
+    closeSearch: 'Cerrar la búsqueda',
+    resultCount: { one: '{total} resultado', other: '{total} resultados' },
+    matchPosition: 'Coincidencia {current} de {total}',
+    noResults: 'No se encontraron resultados',
+  },
+  it: {
+    searchPlaceholder: 'Cerca nelle FAQ…',
+    searchLabel: 'Cerca nelle FAQ',
+    previousMatch: 'Risultato precedente',
+    nextMatch: 'Risultato successivo',
+    matchCounter: '{current}/{total}',
+    closeSearch: 'Chiudi la ricerca',
+    resultCount: { one: '{total} risultato', other: '{total} risultati' },
+    matchPosition: 'Corrispondenza {current} di {total}',
+    noResults: 'Nessun risultato trovato',
+  },
+  nl: {
+    searchPlaceholder: 'Zoeken in veelgestelde vragen…',
+    searchLabel: 'Zoeken in veelgestelde vragen',
+    previousMatch: 'Vorig resultaat',
+    nextMatch: 'Volgend resultaat',
+    matchCounter: '{current}/{total}',
+    closeSearch: 'Zoeken sluiten',
+    resultCount: { one: '{total} resultaat', other: '{total} resultaten' },
+    matchPosition: 'Overeenkomst {current} van {total}',
+    noResults: 'Geen resultaten gevonden',
+  },
+  pt: {
+    searchPlaceholder: 'Pesquisar nas perguntas frequentes…',
+    searchLabel: 'Pesquisar nas perguntas frequentes',
+    previousMatch: 'Resultado anterior',
+    nextMatch: 'Próximo resultado',
+    matchCounter: '{current}/{total}',
+    closeSearch: 'Fechar a pesquisa',
+    resultCount: { one: '{total} resultado', other: '{total} resultados' },
+    matchPosition: 'Correspondência {current} de {total}',
+    noResults: 'Nenhum resultado encontrado',
+  },
+  pl: {
+    searchPlaceholder: 'Szukaj w FAQ…',
+    searchLabel: 'Szukaj w FAQ',
+    previousMatch: 'Poprzedni wynik',
+    nextMatch: 'Następny wynik',
+    matchCounter: '{current}/{total}',
+    closeSearch: 'Zamknij wyszukiwanie',
+    resultCount: {
+      one: '{total} wynik',
+      few: '{total} wyniki',
+      many: '{total} wyników',
+      other: '{total} wyniku',
+    },
+    matchPosition: 'Dopasowanie {current} z {total}',
+    noResults: 'Brak wyników',
+  },
+};
+
+/** Plural categories in the order their forms are listed in `|`-separated messages. */
+const PLURAL_ORDER: readonly PluralCategory[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+/**
+ * Built-in messages for a language tag: those of the exact tag (e.g. `pt-BR`), else of its
+ * language (`pt`), else English.
+ */
+export const messagesFor = (locale: string | null): FaqMessages => {
+  if (!locale) return BUILT_IN_MESSAGES[FALLBACK_LOCALE];
+  const language = locale.split('-')[0].toLowerCase();
+  return (
+    BUILT_IN_MESSAGES[locale] ?? BUILT_IN_MESSAGES[language] ?? BUILT_IN_MESSAGES[FALLBACK_LOCALE]
+  );
+};
+
+/** Pick the form of a plural message for `count`, falling back to `other`. */
+const selectPlural = (message: PluralMessage, count: number, locale: string): string => {
+  const rules = new Intl.PluralRules(locale);
+  const category = rules.select(count) as PluralCategory;
+  if (typeof message !== 'string') return message[category] ?? message.other;
+
+  const forms = message.split('|');
+  if (forms.length === 1) return message;
+  const categories = rules.resolvedOptions().pluralCategories as PluralCategory[];
+  const used = PLURAL_ORDER.filter((name) => categories.includes(name));
+  return forms[used.indexOf(category)] ?? forms[forms.length - 1];
+};
+
+/**
+ * Format a message for an instance: its `messages` override or the built-in text of its
+ * locale, with `{name}` placeholders replaced from `params`. Plural messages pick their form
+ * for `count`.
+ */
+export const formatMessage = (
+  config: Pick<FaqConfig, 'locale' | 'messages'>,
+  key: keyof FaqMessages,
+  params: Record<string, string | number> = {},
+  count = 0
+): string => {
+  const locale = config.locale ?? FALLBACK_LOCALE;
+  const message = config.messages[key] ?? messagesFor(config.locale)[key];
+  const numbers = new Intl.NumberFormat(locale);
+  return selectPlural(message, count, locale)
+    .replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? numbers.format(value) : value;
+    })
+    .trim();
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createMemoryStorage,
+  type FaqStorage,
+  loadState,
+  resolveStorage,
+  saveState,
+  storageKey,
+} from './persistence';
+
+describe('createMemoryStorage', () => {
+  it('stores, reads and removes values', () => {
+    const storage = createMemoryStorage();
+    expect(storage.getItem('a')).toBeNull();
+    storage.setItem('a', '1');
+    expect(storage.getItem('a')).toBe('1');
+    storage.removeItem('a');
+    expect(storage.getItem('a')).toBeNull();
+  });
+});
+
+describe('storageKey', () => {
+  it('keys state by page path', () => {
+    expect(storageKey('/help/billing')).toBe('cur-faq:/help/billing');
+  });
+
+  it('keeps named instances apart', () => {
+    expect(storageKey('/help', 'billing')).toBe('cur-faq:/help#billing');
+  });
+});
+
+describe('saveState / loadState', () => {
+  it('round-trips the state for a page', () => {
+    const storage = createMemoryStorage();
+    saveState(storage, { open: ['refunds'], query: 'ship' }, 'page-a');
+    expect(loadState(storage, 'page-a')).toEqual({ open: ['refunds'], query: 'ship' });
+  });
+
+  it('keeps pages separate', () => {
+    const storage = createMemoryStorage();
+    saveState(storage, { open: ['refunds'], query: '' }, 'page-a');
+    expect(loadState(storage, 'page-b')).toBeNull();
+  });
+
+  it('returns null for malformed JSON', () => {
+    const storage = createMemoryStorage();
+    storage.setItem('page-a', '{nope');
+    expect(loadState(storage, 'page-a')).toBeNull();
+  });
+
+  it('drops fields with the wrong shape', () => {
+    const storage = createMemoryStorage();
+    storage.setItem('page-a', JSON.stringify({ open: ['a', 1], query: 5 }));
+    expect(loadState(storage, 'page-a')).toEqual({ open: ['a'], query: '' });
+  });
+
+  it('ignores storage errors when saving', () => {
+    const storage: FaqStorage = {
+      ...createMemoryStorage(),
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      },
+    };
+    expect(() => saveState(storage, { open: [], query: '' }, 'page-a')).not.toThrow();
+  });
+});
+
+describe('resolveStorage', () => {
+  it('returns the matching web storage', () => {
+    expect(resolveStorage('session')).toBe(window.sessionStorage);
+    expect(resolveStorage('local')).toBe(window.localStorage);
+  });
+});
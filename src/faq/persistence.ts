@@ -0,0 +1,85 @@
+import type { PersistMode } from './types';
+
+/** Minimal key/value store. `sessionStorage`, `localStorage` and `createMemoryStorage()` fit. */
+export interface FaqStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/** What is remembered for a page between visits. */
+export interface PersistedState {
+  /** Slugs of the items the user had open. */
+  open: string[];
+  /** The last search query, or an empty string. */
+  query: string;
+}
+
+/** Prefix for storage keys; the page path is appended. */
+const KEY_PREFIX = 'cur-faq:';
+
+/** In-memory storage, useful for tests and as a stand-in when web storage is unavailable. */
+export const createMemoryStorage = (): FaqStorage => {
+  const entries = new Map<string, string>();
+  return {
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => void entries.set(key, value),
+    removeItem: (key) => void entries.delete(key),
+  };
+};
+
+/**
+ * Get the browser storage for a persist mode. Returns `null` when storage is blocked
+ * (e.g. disabled cookies or some private browsing modes), in which case nothing is persisted.
+ */
+export const resolveStorage = (mode: PersistMode): FaqStorage | null => {
+  try {
+    const storage = mode === 'local' ? window.localStorage : window.sessionStorage;
+    const probe = `${KEY_PREFIX}probe`;
+    storage.setItem(probe, probe);
+    storage.removeItem(probe);
+    return storage;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Storage key for a page, so each page keeps its own state. Named FAQ instances on the
+ * same page get their own key (`cur-faq:/help#billing`).
+ */
+export const storageKey = (path: string = window.location.pathname, instance?: string): string =>
+  instance ? `${KEY_PREFIX}${path}#${instance}` : `${KEY_PREFIX}${path}`;
+
+/** Read the persisted state for a page, or `null` if there is none or it is unreadable. */
+export const loadState = (
+  storage: FaqStorage,
+  key: string = storageKey()
+): PersistedState | null => {
+  try {
+    const raw = storage.getItem(key);
+    if (!raw) return null;
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') return null;
+    const { open, query } = parsed as Partial<PersistedState>;
+    return {
+      open: Array.isArray(open) ? open.filter((slug) => typeof slug === 'string') : [],
+      query: typeof query === 'string' ? query : '',
+    };
+  } catch {
+    return null;
+  }
+};
+
+/** Write the state for a page. Storage errors (e.g. quota exceeded) are ignored. */
+export const saveState = (
+  storage: FaqStorage,
+  state: PersistedState,
+  key: string = storageKey()
+): void => {
+  try {
+    storage.setItem(key, JSON.stringify(state));
+  } catch {
+    // Persistence is best-effort
+  }
+};
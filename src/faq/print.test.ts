@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { bindPrintMode } from './print';
+import type { FaqItemElements } from './types';
+
+describe('bindPrintMode', () => {
+  let items: FaqItemElements[];
+  let unbind: () => void;
+
+  const itemAt = (index: number) => items[index];
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="a"><div class="content" hidden="until-found">Refund <mark class="hl">policy</mark></div></div>
+      <div id="b"><div class="content">Open <mark class="hl current">refund</mark> answer</div></div>
+    `;
+    items = ['a', 'b'].map((id) => {
+      const item = document.getElementById(id)!;
+      return { item, content: item.querySelector<HTMLElement>('.content') } as FaqItemElements;
+    });
+    unbind = bindPrintMode(() => items, 'hl');
+  });
+
+  afterEach(() => {
+    unbind();
+    vi.unstubAllGlobals();
+    document.body.innerHTML = '';
+  });
+
+  it('shows every answer without highlights while printing', () => {
+    window.dispatchEvent(new Event('beforeprint'));
+    expect(itemAt(0).content!.hasAttribute('hidden')).toBe(false);
+    expect(document.querySelectorAll('mark')).toHaveLength(0);
+    expect(itemAt(1).content!.textContent).toBe('Open refund answer');
+  });
+
+  it('restores the hidden answers and the same marks afterwards', () => {
+    const current = document.querySelector('mark.current');
+    window.dispatchEvent(new Event('beforeprint'));
+    window.dispatchEvent(new Event('beforeprint'));
+    window.dispatchEvent(new Event('afterprint'));
+
+    expect(itemAt(0).content!.getAttribute('hidden')).toBe('until-found');
+    expect(itemAt(1).content!.hasAttribute('hidden')).toBe(false);
+    expect(document.querySelectorAll('mark')).toHaveLength(2);
+    expect(document.querySelector('mark.current')).toBe(current);
+  });
+
+  it('follows the print media query', () => {
+    unbind();
+    let onChange: ((e: { matches: boolean }) => void) | undefined;
+    vi.stubGlobal('matchMedia', () => ({
+      addEventListener: (_: string, listener: typeof onChange) => {
+        onChange = listener;
+      },
+      removeEventListener: vi.fn(),
+    }));
+    unbind = bindPrintMode(() => items, 'hl');
+
+    onChange!({ matches: true });
+    expect(itemAt(0).content!.hasAttribute('hidden')).toBe(false);
+    onChange!({ matches: false });
+    expect(itemAt(0).content!.hasAttribute('hidden')).toBe(true);
+  });
+
+  it('puts the page back when unbound mid-print', () => {
+    window.dispatchEvent(new Event('beforeprint'));
+    unbind();
+    expect(itemAt(0).content!.hasAttribute('hidden')).toBe(true);
+    expect(document.querySelectorAll('mark')).toHaveLength(2);
+  });
+});
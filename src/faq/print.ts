@@ -0,0 +1,69 @@
+import type { FaqItemElements } from './types';
+
+/**
+ * Show every answer while the page is printed, and put the page back as it was afterwards.
+ *
+ * Closed answers lose their `hidden` attribute and search highlights are swapped for their
+ * plain text, so printouts show neither blank answers nor highlight backgrounds. Nothing goes
+ * through the toggle logic: items keep their open state, ARIA and events, and the same
+ * `<mark>` elements are put back, so the current match and its counter are unchanged.
+ *
+ * `beforeprint`/`afterprint` are used where available; the `print` media query covers
+ * browsers that only report printing through it. Both may fire for one print, so entering
+ * and leaving are idempotent. Returns a cleanup function, which restores the page first if
+ * it is still in print mode.
+ */
+export const bindPrintMode = (
+  getItems: () => FaqItemElements[],
+  highlightClass: string
+): (() => void) => {
+  let restore: (() => void) | null = null;
+
+  const enterPrint = () => {
+    if (restore) return;
+    const items = getItems();
+
+    const hidden = items.flatMap(({ content }) =>
+      content?.hasAttribute('hidden') ? [{ content, value: content.getAttribute('hidden')! }] : []
+    );
+    // Nested items hold each other's marks, so the same mark can be found more than once
+    const marks = new Set(
+      items.flatMap(({ item }) =>
+        Array.from(item.querySelectorAll<HTMLElement>(`mark.${highlightClass}`))
+      )
+    );
+
+    hidden.forEach(({ content }) => content.removeAttribute('hidden'));
+    const swapped = Array.from(marks, (mark) => {
+      const text = document.createTextNode(mark.textContent ?? '');
+      mark.replaceWith(text);
+      return { mark, text };
+    });
+
+    restore = () => {
+      swapped.forEach(({ mark, text }) => {
+        if (text.isConnected) text.replaceWith(mark);
+      });
+      hidden.forEach(({ content, value }) => content.setAttribute('hidden', value));
+    };
+  };
+
+  const leavePrint = () => {
+    restore?.();
+    restore = null;
+  };
+
+  const printQuery = typeof window.matchMedia === 'function' ? window.matchMedia('print') : null;
+  const handleMediaChange = (e: MediaQueryListEvent) => (e.matches ? enterPrint() : leavePrint());
+
+  window.addEventListener('beforeprint', enterPrint);
+  window.addEventListener('afterprint', leavePrint);
+  printQuery?.addEventListener?.('change', handleMediaChange);
+
+  return () => {
+    leavePrint();
+    window.removeEventListener('beforeprint', enterPrint);
+    window.removeEventListener('afterprint', leavePrint);
+    printQuery?.removeEventListener?.('change', handleMediaChange);
+  };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseQuery } from './query';
+
+describe('parseQuery', () => {
+  it('splits words into separate terms', () => {
+    expect(parseQuery('return policy international')).toEqual({
+      terms: ['return', 'policy', 'international'],
+      excluded: [],
+      quoted: [],
+    });
+  });
+
+  it('keeps quoted phrases together', () => {
+    expect(parseQuery('"gift card" balance').terms).toEqual(['gift card', 'balance']);
+  });
+
+  it('collapses whitespace inside phrases', () => {
+    expect(parseQuery('"gift    card "').terms).toEqual(['gift card']);
+  });
+
+  it('treats an unclosed quote as a phrase to the end of the query', () => {
+    expect(parseQuery('refund "store credit').terms).toEqual(['refund', 'store credit']);
+  });
+
+  it('collects excluded words and phrases', () => {
+    expect(parseQuery('refund -expired -"gift card"')).toEqual({
+      terms: ['refund'],
+      excluded: ['expired', 'gift card'],
+      quoted: [],
+    });
+  });
+
+  it('ignores a lone dash and empty quotes', () => {
+    expect(parseQuery('- "" refund')).toEqual({
+      terms: ['refund'],
+      excluded: [],
+      quoted: [],
+    });
+  });
+
+  it('keeps hyphenated words intact', () => {
+    expect(parseQuery('e-mail').terms).toEqual(['e-mail']);
+  });
+
+  it('removes duplicate terms', () => {
+    expect(parseQuery('refund refund').terms).toEqual(['refund']);
+  });
+
+  it('flags quoted terms, single words included', () => {
+    expect(parseQuery('"refund" "gift card" balance').quoted).toEqual(['refund', 'gift card']);
+  });
+});
@@ -0,0 +1,39 @@
+/** A search query split into the terms it must (or must not) contain. */
+export interface ParsedQuery {
+  /** Words and quoted phrases to look for. Phrases keep their inner spaces. */
+  terms: string[];
+  /** Words and phrases prefixed with `-` that rule an item out. */
+  excluded: string[];
+  /** Terms written in quotes, single words included, which only match literally. */
+  quoted: string[];
+}
+
+/** Tokens: an optional `-`, then a quoted phrase (closing quote optional) or a bare word. */
+const TOKEN_PATTERN = /(-?)"([^"]*)"?|(\S+)/g;
+
+/**
+ * Parse a normalised query string.
+ * `return "gift card" -expired` → terms `return`, `gift card`; excluded `expired`.
+ */
+export const parseQuery = (query: string): ParsedQuery => {
+  const terms = new Set<string>();
+  const excluded = new Set<string>();
+  const quoted = new Set<string>();
+
+  for (const [, negation, phrase, word] of query.matchAll(TOKEN_PATTERN)) {
+    if (phrase !== undefined) {
+      const value = phrase.replace(/\s+/g, ' ').trim();
+      if (value && negation) excluded.add(value);
+      else if (value) {
+        terms.add(value);
+        quoted.add(value);
+      }
+    } else if (word.length > 1 && word.startsWith('-')) {
+      excluded.add(word.slice(1));
+    } else if (word !== '-') {
+      terms.add(word);
+    }
+  }
+
+  return { terms: Array.from(terms), excluded: Array.from(excluded), quoted: Array.from(quoted) };
+};
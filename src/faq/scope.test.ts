@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { ATTR, ROLES } from './config';
+import { findInstanceRoots, ownerRoot, queryScoped, queryScopedOne, scopedId } from './scope';
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+const item = `<div ${ATTR.element}="${ROLES.item}"></div>`;
+
+describe('findInstanceRoots', () => {
+  it('finds named roots in document order', () => {
+    document.body.innerHTML = `
+      <section ${ATTR.instance}="billing"></section>
+      <section ${ATTR.instance}="shipping"></section>
+    `;
+    expect(findInstanceRoots().map(({ name }) => name)).toEqual(['billing', 'shipping']);
+  });
+
+  it('numbers unnamed roots and suffixes repeated names', () => {
+    document.body.innerHTML = `
+      <section ${ATTR.instance}=""></section>
+      <section ${ATTR.instance}="help"></section>
+      <section ${ATTR.instance}="help"></section>
+      <section ${ATTR.instance}="default"></section>
+    `;
+    expect(findInstanceRoots().map(({ name }) => name)).toEqual([
+      'faq-1',
+      'help',
+      'help-2',
+      'default-2',
+    ]);
+  });
+});
+
+describe('ownerRoot', () => {
+  it('returns the closest root, or the body for unscoped elements', () => {
+    document.body.innerHTML = `<section ${ATTR.instance}="billing">${item}</section>${item}`;
+    const [scoped, unscoped] = Array.from(document.querySelectorAll(`[${ATTR.element}]`));
+    expect(ownerRoot(scoped)).toBe(document.querySelector('section'));
+    expect(ownerRoot(unscoped)).toBe(document.body);
+  });
+});
+
+describe('queryScoped', () => {
+  it('skips elements that belong to a nested instance', () => {
+    document.body.innerHTML = `
+      ${item}
+      <section ${ATTR.instance}="billing">${item}${item}</section>
+    `;
+    const selector = `[${ATTR.element}="${ROLES.item}"]`;
+    const section = document.querySelector<HTMLElement>('section')!;
+    expect(queryScoped(document.body, selector)).toHaveLength(1);
+    expect(queryScoped(section, selector)).toHaveLength(2);
+    expect(queryScopedOne(section, `[${ATTR.element}="${ROLES.search}"]`)).toBeNull();
+  });
+});
+
+describe('scopedId', () => {
+  it('leaves the default instance unsuffixed', () => {
+    expect(scopedId('cur-faq-styles', 'default')).toBe('cur-faq-styles');
+    expect(scopedId('cur-faq-styles', 'billing')).toBe('cur-faq-styles-billing');
+  });
+});
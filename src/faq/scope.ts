@@ -0,0 +1,61 @@
+import { ATTR } from './config';
+
+/** Name of the instance covering everything outside a `cur-faq-instance` root. */
+export const DEFAULT_INSTANCE = 'default';
+
+/** An instance root element and its name. */
+export interface InstanceRoot {
+  root: HTMLElement;
+  name: string;
+}
+
+/** Selector matching named instance roots. */
+const ROOT_SELECTOR = `[${ATTR.instance}]`;
+
+/** Root element of the instance an element belongs to (`document.body` when unscoped). */
+export const ownerRoot = (el: Element): HTMLElement =>
+  el.closest<HTMLElement>(ROOT_SELECTOR) ?? document.body;
+
+/** Elements inside `root` matching `selector` that belong to its instance, not a nested one. */
+export const queryScoped = <T extends HTMLElement = HTMLElement>(
+  root: HTMLElement,
+  selector: string
+): T[] => Array.from(root.querySelectorAll<T>(selector)).filter((el) => ownerRoot(el) === root);
+
+/** First element matching `selector` that belongs to the instance rooted at `root`. */
+export const queryScopedOne = <T extends HTMLElement = HTMLElement>(
+  root: HTMLElement,
+  selector: string
+): T | null => queryScoped<T>(root, selector)[0] ?? null;
+
+/**
+ * Derive a per-instance identifier (element id, storage key, URL parameter) from a base.
+ * The default instance keeps the base unchanged, so single-instance pages are unaffected.
+ */
+export const scopedId = (base: string, name: string): string =>
+  name === DEFAULT_INSTANCE ? base : `${base}-${name}`;
+
+/**
+ * Name a root: its `cur-faq-instance` value, or `faq-<position>` when empty, suffixed with
+ * `-2`, `-3`, … while the name is in `used`. The chosen name is added to `used`.
+ */
+export const nameInstance = (root: HTMLElement, position: number, used: Set<string>): string => {
+  const base = root.getAttribute(ATTR.instance)?.trim() || `faq-${position}`;
+  let name = base;
+  for (let n = 2; used.has(name); n++) name = `${base}-${n}`;
+  used.add(name);
+  return name;
+};
+
+/**
+ * Find the named instance roots on the page, in document order, skipping roots that already
+ * have an instance in `existing`. Roots without a name are numbered (`faq-1`, `faq-2`, …)
+ * and repeated names get `-2`, `-3`, … suffixes.
+ */
+export const findInstanceRoots = (existing: InstanceRoot[] = []): InstanceRoot[] => {
+  const used = new Set([DEFAULT_INSTANCE, ...existing.map(({ name }) => name)]);
+  const taken = new Set(existing.map(({ root }) => root));
+  return Array.from(document.querySelectorAll<HTMLElement>(ROOT_SELECTOR)).flatMap((root, index) =>
+    taken.has(root) ? [] : [{ root, name: nameInstance(root, index + 1, used) }]
+  );
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+
+import { matchesTags, normalizeSelection, parseTags, toggleTag } from './tags';
+
+describe('parseTags', () => {
+  it('splits, slugifies and deduplicates a tag list', () => {
+    expect(parseTags('Billing, Gift Cards,billing, ,Crème')).toEqual([
+      'billing',
+      'gift-cards',
+      'creme',
+    ]);
+  });
+
+  it('returns no tags for a missing attribute', () => {
+    expect(parseTags(null)).toEqual([]);
+  });
+});
+
+describe('matchesTags', () => {
+  const tags = ['billing', 'account'];
+
+  it('matches every item when nothing is selected', () => {
+    expect(matchesTags([], [], 'all')).toBe(true);
+  });
+
+  it('needs any selected tag in single and any mode', () => {
+    expect(matchesTags(tags, ['shipping', 'billing'], 'any')).toBe(true);
+    expect(matchesTags(tags, ['shipping'], 'single')).toBe(false);
+  });
+
+  it('needs every selected tag in all mode', () => {
+    expect(matchesTags(tags, ['billing', 'account'], 'all')).toBe(true);
+    expect(matchesTags(tags, ['billing', 'shipping'], 'all')).toBe(false);
+  });
+});
+
+describe('toggleTag', () => {
+  it('replaces the selection in single mode and deselects on a second click', () => {
+    expect(toggleTag(['billing'], 'account', 'single')).toEqual(['account']);
+    expect(toggleTag(['account'], 'account', 'single')).toEqual([]);
+  });
+
+  it('adds to and removes from the selection in multi-select modes', () => {
+    expect(toggleTag(['billing'], 'account', 'any')).toEqual(['billing', 'account']);
+    expect(toggleTag(['billing', 'account'], 'billing', 'all')).toEqual(['account']);
+  });
+
+  it('clears the selection for an empty tag', () => {
+    expect(toggleTag(['billing', 'account'], '', 'any')).toEqual([]);
+  });
+});
+
+describe('normalizeSelection', () => {
+  it('slugifies tags and keeps one in single mode', () => {
+    expect(normalizeSelection(['Gift Cards', 'Billing'], 'any')).toEqual(['gift-cards', 'billing']);
+    expect(normalizeSelection(['Gift Cards', 'Billing'], 'single')).toEqual(['gift-cards']);
+  });
+});
@@ -0,0 +1,37 @@
+import { slugify } from '$utils/helpers';
+
+import type { TagMode } from './types';
+
+/**
+ * Split a comma-separated tag list into unique slugs, so `"Billing, Gift cards"` becomes
+ * `['billing', 'gift-cards']` and matches a chip labelled "Gift Cards".
+ */
+export const parseTags = (value: string | null | undefined): string[] =>
+  Array.from(new Set((value ?? '').split(',').map(slugify).filter(Boolean)));
+
+/**
+ * Whether an item's tags satisfy the selected tags: every one of them in `all` mode, any
+ * of them otherwise. An empty selection matches every item.
+ */
+export const matchesTags = (itemTags: string[], selected: string[], mode: TagMode): boolean => {
+  if (!selected.length) return true;
+  return mode === 'all'
+    ? selected.every((tag) => itemTags.includes(tag))
+    : selected.some((tag) => itemTags.includes(tag));
+};
+
+/**
+ * Selection after a chip for `tag` is clicked: a selected tag is deselected, and in `single`
+ * mode a new tag replaces the selection. An empty tag (an "All" chip) clears it.
+ */
+export const toggleTag = (selected: string[], tag: string, mode: TagMode): string[] => {
+  if (!tag) return [];
+  if (selected.includes(tag)) return selected.filter((other) => other !== tag);
+  return mode === 'single' ? [tag] : [...selected, tag];
+};
+
+/** Normalise a selection set through the API or URL: slugs, deduplicated, one in `single` mode. */
+export const normalizeSelection = (tags: string[], mode: TagMode): string[] => {
+  const selection = parseTags(tags.join(','));
+  return mode === 'single' ? selection.slice(0, 1) : selection;
+};
@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { ATTR, ROLES } from './config';
+import {
+  ancestorsOf,
+  itemLevels,
+  linkItems,
+  ownPart,
+  ownTextNodes,
+  siblingsOf,
+  topLevelItems,
+} from './tree';
+import type { FaqGroup, FaqItemElements } from './types';
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+const item = (text: string, nested = '') => `
+  <div ${ATTR.element}="${ROLES.item}">
+    <div ${ATTR.element}="${ROLES.content}">${text}${nested}</div>
+  </div>
+`;
+
+/** Parse every item on the page into a linked list, the way the module does. */
+const parsePage = (html: string): FaqItemElements[] => {
+  document.body.innerHTML = html;
+  const items = Array.from(
+    document.querySelectorAll<HTMLElement>(`[${ATTR.element}="${ROLES.item}"]`)
+  ).map((el) => ({
+    item: el,
+    trigger: null,
+    title: null,
+    content: ownPart(el, ROLES.content),
+    iconOpen: null,
+    iconClose: null,
+    slug: 'faq',
+    tags: [],
+    parent: null,
+    children: [],
+  }));
+  linkItems(items);
+  return items;
+};
+
+const groupOf = (items: FaqItemElements[]): FaqGroup => ({
+  groupEl: document.body,
+  items,
+  config: {
+    accordion: false,
+    defaultOpen: null,
+    collapseDuration: 250,
+    animation: 'height',
+    easing: 'ease',
+    rovingTabindex: false,
+  },
+});
+
+describe('ownPart', () => {
+  it('skips the parts of nested items', () => {
+    const icon = `<span ${ATTR.element}="${ROLES.iconOpen}"></span>`;
+    const [outer, inner] = parsePage(item('Outer', item(icon)));
+    const innerIcon = inner.item.querySelector(`[${ATTR.element}="${ROLES.iconOpen}"]`);
+    expect(ownPart(outer.item, ROLES.iconOpen)).toBeNull();
+    expect(ownPart(inner.item, ROLES.iconOpen)).toBe(innerIcon);
+    expect(outer.content?.contains(inner.content!)).toBe(true);
+  });
+});
+
+describe('ownTextNodes', () => {
+  it('leaves out the text of nested items', () => {
+    const [outer] = parsePage(item('Outer', item('Inner')));
+    const text = ownTextNodes(outer.content!, outer.item)
+      .map((node) => node.nodeValue)
+      .join('')
+      .trim();
+    expect(text).toBe('Outer');
+  });
+});
+
+describe('linkItems', () => {
+  it('links parents and children across levels', () => {
+    const [a, a1, a1x, a2, b] = parsePage(
+      item('A', item('A1', item('A1x')) + item('A2')) + item('B')
+    );
+    expect(a.children).toEqual([a1, a2]);
+    expect(a1.children).toEqual([a1x]);
+    expect(a1x.parent).toBe(a1);
+    expect(b.parent).toBeNull();
+    expect(ancestorsOf(a1x)).toEqual([a, a1]);
+  });
+
+  it('replaces links from a previous parse', () => {
+    const items = parsePage(item('A', item('A1')));
+    const [a, a1] = items;
+    document.body.appendChild(a1.item);
+    linkItems(items);
+    expect(a.children).toEqual([]);
+    expect(a1.parent).toBeNull();
+  });
+});
+
+describe('levels', () => {
+  it('splits a group into sibling sets and finds its top level', () => {
+    const items = parsePage(item('A', item('A1') + item('A2')) + item('B'));
+    const [a, a1, a2, b] = items;
+    const group = groupOf(items);
+
+    expect(siblingsOf(group, a1)).toEqual([a1, a2]);
+    expect(siblingsOf(group, b)).toEqual([a, b]);
+    expect(itemLevels(group)).toEqual([
+      [a, b],
+      [a1, a2],
+    ]);
+    expect(topLevelItems(group)).toEqual([a, b]);
+    expect(topLevelItems(groupOf([a1, a2]))).toEqual([a1, a2]);
+  });
+});
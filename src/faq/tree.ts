@@ -0,0 +1,66 @@
+import { ATTR, ROLES } from './config';
+import type { FaqGroup, FaqItemElements } from './types';
+
+/** Selector matching item elements. */
+const ITEM_SELECTOR = `[${ATTR.element}="${ROLES.item}"]`;
+
+/** Closest item element enclosing `el`, including `el` itself. */
+const closestItem = (el: Element): HTMLElement | null => el.closest<HTMLElement>(ITEM_SELECTOR);
+
+/** First element with the given role inside `item` that belongs to it, not to a nested item. */
+export const ownPart = (item: HTMLElement, role: string): HTMLElement | null =>
+  Array.from(item.querySelectorAll<HTMLElement>(`[${ATTR.element}="${role}"]`)).find(
+    (el) => closestItem(el) === item
+  ) ?? null;
+
+/** Text nodes inside `el` that belong to `item`, skipping the text of nested items. */
+export const ownTextNodes = (el: HTMLElement, item: HTMLElement): Text[] => {
+  const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  let current = walker.nextNode();
+  while (current) {
+    const parent = current.parentElement;
+    if (parent && closestItem(parent) === item) nodes.push(current as Text);
+    current = walker.nextNode();
+  }
+  return nodes;
+};
+
+/**
+ * Link each item to the closest enclosing item in `items` and list its children, in
+ * document order. Links from a previous parse are replaced.
+ */
+export const linkItems = (items: FaqItemElements[]): void => {
+  const byElement = new Map(items.map((faqItem) => [faqItem.item, faqItem]));
+  items.forEach((faqItem) => {
+    faqItem.children = [];
+  });
+  items.forEach((faqItem) => {
+    const parentEl = faqItem.item.parentElement && closestItem(faqItem.item.parentElement);
+    faqItem.parent = (parentEl && byElement.get(parentEl)) || null;
+    faqItem.parent?.children.push(faqItem);
+  });
+};
+
+/** Enclosing items of an item, outermost first. */
+export const ancestorsOf = (faqItem: FaqItemElements): FaqItemElements[] =>
+  faqItem.parent ? [...ancestorsOf(faqItem.parent), faqItem.parent] : [];
+
+/** Items of a group at the same nesting level as `faqItem`, including itself. */
+export const siblingsOf = (group: FaqGroup, faqItem: FaqItemElements): FaqItemElements[] =>
+  group.items.filter((other) => other.parent === faqItem.parent);
+
+/** Items of a group that are not nested inside another item of the same group. */
+export const topLevelItems = (group: FaqGroup): FaqItemElements[] =>
+  group.items.filter(({ parent }) => !parent || !group.items.includes(parent));
+
+/** A group's items split by nesting level: one list per parent, in document order. */
+export const itemLevels = (group: FaqGroup): FaqItemElements[][] => {
+  const levels = new Map<FaqItemElements | null, FaqItemElements[]>();
+  group.items.forEach((faqItem) => {
+    const level = levels.get(faqItem.parent) ?? [];
+    level.push(faqItem);
+    levels.set(faqItem.parent, level);
+  });
+  return Array.from(levels.values());
+};
@@ -6,6 +6,14 @@ export interface FaqItemElements {
   content: HTMLElement | null;
   iconOpen: HTMLElement | null;
   iconClose: HTMLElement | null;
+  /** Unique, URL-safe identifier used for `#slug` deep links. */
+  slug: string;
+  /** Tag slugs from `cur-faq-tags`, matched by `filter` chips. */
+  tags: string[];
+  /** The item this one is nested in, or `null` at the top level. */
+  parent: FaqItemElements | null;
+  /** Items nested directly inside this one, in document order. */
+  children: FaqItemElements[];
 }
 
 /** Per-group configuration resolved from attributes on the group element. */
@@ -13,15 +21,101 @@ export interface FaqGroupConfig {
   accordion: boolean;
   defaultOpen: number | null;
   collapseDuration: number;
+  /** How content expands and collapses. Reduced-motion users always get an instant toggle. */
+  animation: AnimationStrategy;
+  /** CSS easing function of the expand/collapse animation. */
+  easing: string;
+  /** Only one trigger per group is in the tab order; arrow keys move between them. */
+  rovingTabindex: boolean;
 }
 
-/** A group element, its parsed FAQ items, and its resolved config. */
+/** A group element, its parsed FAQ items (nested ones included), and its resolved config. */
 export interface FaqGroup {
   groupEl: HTMLElement;
   items: FaqItemElements[];
   config: FaqGroupConfig;
 }
 
+/**
+ * How content expands and collapses: a JS-measured `height` transition, a CSS
+ * `grid-template-rows` transition (`grid`), a CSS transition to `height: auto` where
+ * `interpolate-size` is supported (`interpolate`), the Web Animations API (`waapi`), or
+ * no animation (`none`).
+ */
+export type AnimationStrategy = 'height' | 'grid' | 'interpolate' | 'waapi' | 'none';
+
+/**
+ * Where the floating search panel sits: fixed in a corner of the viewport, as a bar across
+ * its top (`top-bar`), or in the flow right after the search input, sticking to the top of
+ * the viewport while scrolling (`docked`).
+ */
+export type FloatingPosition =
+  | 'bottom-right'
+  | 'bottom-left'
+  | 'top-right'
+  | 'top-left'
+  | 'top-bar'
+  | 'docked';
+
+/** How search queries are matched against item text. */
+export type SearchMode = 'exact' | 'fuzzy';
+
+/** Whether a multi-term query needs every term (`and`) or any term (`or`) to match. */
+export type SearchOperator = 'and' | 'or';
+
+/** Which web storage remembers open items and the last query between page loads. */
+export type PersistMode = 'session' | 'local';
+
+/**
+ * How `filter` chips combine: one tag at a time (`single`), or several showing items with
+ * any (`any`) or all (`all`) of the selected tags.
+ */
+export type TagMode = 'single' | 'any' | 'all';
+
+/** Analytics tools that interactions can be forwarded to with `cur-faq-analytics`. */
+export type AnalyticsAdapterName = 'datalayer' | 'gtag' | 'plausible';
+
+/** Diagnostics output: console warnings only, or warnings plus an on-page overlay. */
+export type DebugMode = 'console' | 'overlay';
+
+/**
+ * A message that depends on a count: one form per CLDR plural category of the locale, or a
+ * string with the forms separated by `|`, in the order zero, one, two, few, many, other
+ * (leaving out categories the locale doesn't use). A string without `|` is used for every count.
+ */
+export type PluralMessage = string | ({ other: string } & Partial<Record<PluralCategory, string>>);
+
+/** CLDR plural categories, as returned by `Intl.PluralRules`. */
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+/**
+ * Text shown or announced by the module. `{name}` placeholders are replaced with the values
+ * documented for each message, numbers formatted for the locale.
+ */
+export interface FaqMessages {
+  /** Placeholder of the floating panel's search input. */
+  searchPlaceholder: string;
+  /** Accessible name of the floating panel's search input. */
+  searchLabel: string;
+  /** Accessible name of the floating panel's previous-match button. */
+  previousMatch: string;
+  /** Accessible name of the floating panel's next-match button. */
+  nextMatch: string;
+  /** Match counter of the floating panel: `{current}` and `{total}`. */
+  matchCounter: string;
+  /** Accessible name of the floating panel's close button. */
+  closeSearch: string;
+  /** Number of items matching a search, for screen readers: `{total}` (the count). */
+  resultCount: PluralMessage;
+  /**
+   * Position of the current match among all highlighted matches, for screen readers:
+   * `{current}` and `{total}`.
+   */
+  matchPosition: string;
+  /** Shown in an empty `empty-state` element, and announced, when nothing matches. */
+  noResults: string;
+}
+
 /** Resolved global configuration for the FAQ module. */
 export interface FaqConfig {
   classes: {
@@ -31,40 +125,200 @@ export interface FaqConfig {
   };
   timing: {
     collapseDuration: number;
+    /** CSS easing function of the expand/collapse animation. */
+    easing: string;
     iconTransitionDuration: number;
     searchDebounce: number;
+    /** Quiet time before a search is reported to analytics, so only settled queries count. */
+    analyticsDebounce: number;
+    /** Quiet time before search results are announced to screen readers. */
+    announceDebounce: number;
   };
   colors: {
     highlightBackground: string;
     currentHighlightBackground: string;
   };
   floatingSearch: boolean;
+  /** Where the floating search panel sits. */
+  floatingPosition: FloatingPosition;
+  /**
+   * Open items from `#slug`, restore `?faq-q=` searches, and write the hash on open. Off by
+   * default, since it rewrites the page URL.
+   */
+  deepLink: boolean;
+  /** Remember open items and the last query, or `null` to always start fresh. */
+  persist: PersistMode | null;
+  /** Emit a schema.org `FAQPage` JSON-LD block built from the items. */
+  jsonLd: boolean;
+  searchMode: SearchMode;
+  searchOperator: SearchOperator;
+  /** Hide non-matching items (and emptied groups) while a search is active. */
+  searchFilter: boolean;
+  /** Most question titles suggested while typing in the search input, or `0` for none. */
+  suggestions: number;
+  /**
+   * BCP 47 language tag used for case and accent folding and to pick the built-in messages,
+   * or `null` for the browser default (and English messages).
+   */
+  locale: string | null;
+  /** Messages replacing the built-in ones of the locale. */
+  messages: Partial<FaqMessages>;
+  tagMode: TagMode;
+  /** Endpoint that `feedback` votes are posted to with `navigator.sendBeacon()`, if any. */
+  feedbackUrl: string | null;
+  /** Send `feedback` votes yourself instead of beaconing them to `feedbackUrl`. JS only. */
+  sendFeedback: ((feedback: FaqFeedback) => void) | null;
+  /** Analytics tools that interactions are forwarded to. */
+  analytics: AnalyticsAdapterName[];
+  /** Receive analytics events yourself, alongside any `analytics` adapters. JS only. */
+  trackEvent: ((event: FaqAnalyticsEvent) => void) | null;
+  /** Audit the markup at init and report problems, or `null` to stay quiet. */
+  debug: DebugMode | null;
 }
 
+/**
+ * JS options for `createFaq()` and `window.curFaqConfig`: any subset of `FaqConfig`, with
+ * nested objects partial too, plus defaults for the instance's groups.
+ */
+export type FaqOptions = {
+  [K in keyof FaqConfig]?: FaqConfig[K] extends unknown[]
+    ? FaqConfig[K]
+    : FaqConfig[K] extends object
+      ? Partial<FaqConfig[K]>
+      : FaqConfig[K];
+} & {
+  /** Defaults for every group in the instance. Group attributes still take precedence. */
+  groups?: Partial<FaqGroupConfig>;
+};
+
+/** Options set on `window.curFaqConfig` before the script runs. */
+export type FaqGlobalOptions = FaqOptions & {
+  /** Options for individual instances, by name. These win over the shared options. */
+  instances?: Record<string, FaqOptions>;
+};
+
 /** Mutable search state tracked during the FAQ lifecycle. */
 export interface SearchState {
   marks: HTMLElement[];
   currentIndex: number;
   searchOpenedItems: Set<HTMLElement>;
+  /** The last query searched for, or an empty string when the search is cleared. */
+  query: string;
+  /** Tags selected with `filter` chips or `setFilter()`; empty when every item is shown. */
+  tags: string[];
 }
 
-/** Public API returned by `initFaq()`. */
+/** A matching item and its relevance score, as reported in the `cur-faq:search` event. */
+export interface SearchResult {
+  item: HTMLElement;
+  score: number;
+}
+
+/** A "Was this helpful?" vote, as sent to `feedbackUrl` or `sendFeedback`. */
+export interface FaqFeedback {
+  /** Name of the instance the item belongs to. */
+  instance: string;
+  slug: string;
+  /** Question text of the item. */
+  question: string;
+  helpful: boolean;
+  /** Text of the item's `feedback-comment` field, or an empty string. */
+  comment: string;
+  /** Path of the page the vote was cast on. */
+  page: string;
+}
+
+/** Names of the interactions reported to analytics. */
+export type FaqAnalyticsEventName =
+  | 'faq_search'
+  | 'faq_search_no_results'
+  | 'faq_match_navigate'
+  | 'faq_open'
+  | 'faq_dwell';
+
+/** An interaction reported to analytics, with flat parameters that every tool accepts. */
+export interface FaqAnalyticsEvent {
+  name: FaqAnalyticsEventName;
+  params: Record<string, string | number>;
+}
+
+/** Visible item count for one group, as reported in the `cur-faq:filter` event. */
+export interface FilterGroupCount {
+  group: HTMLElement;
+  visible: number;
+  total: number;
+}
+
+/** schema.org `FAQPage` structured data, as returned by `toJsonLd()`. */
+export interface FaqPageSchema {
+  '@context': 'https://schema.org';
+  '@type': 'FAQPage';
+  mainEntity: {
+    '@type': 'Question';
+    name: string;
+    acceptedAnswer: { '@type': 'Answer'; text: string };
+  }[];
+}
+
+/**
+ * An item passed to the instance API: its elements, its zero-based index among the instance's
+ * items (in `items` order), its slug, or its item element or any element inside it.
+ */
+export type FaqItemRef = FaqItemElements | number | string | Element;
+
+/** Public API of one FAQ instance. */
 export interface FaqInstance {
+  /** Instance name: the `cur-faq-instance` value, or `"default"` for unscoped markup. */
+  readonly name: string;
+  /** Root element the instance is scoped to (`document.body` for the default instance). */
+  readonly root: HTMLElement;
   readonly items: FaqItemElements[];
   readonly config: FaqConfig;
-  open(item: FaqItemElements): void;
-  close(item: FaqItemElements): void;
-  toggle(item: FaqItemElements): void;
+  /**
+   * Open an item, and the items it is nested in. Resolves when the animation has finished, or
+   * at once when the item is already open, unknown, or kept closed by a `cur-faq:beforeopen`
+   * listener.
+   */
+  open(item: FaqItemRef): Promise<void>;
+  /** Close an item. Resolves like `open()`. */
+  close(item: FaqItemRef): Promise<void>;
+  /** Open a closed item or close an open one. Resolves like `open()`. */
+  toggle(item: FaqItemRef): Promise<void>;
+  /**
+   * Open every item, or every item of one group element. Accordion groups are left as they
+   * are, since they allow one open item at a time.
+   */
+  openAll(group?: HTMLElement): void;
+  /** Close every item, or every item of one group element. */
+  closeAll(group?: HTMLElement): void;
   search(query: string): void;
+  /** Show only items with the given tags (combined per `tagMode`). An empty list shows all. */
+  setFilter(tags: string[]): void;
   clearSearch(): void;
   nextMatch(): void;
   prevMatch(): void;
+  /** Build schema.org `FAQPage` structured data from the current items. */
+  toJsonLd(): FaqPageSchema;
+  /** Re-scan the page for items added or removed since init. Runs automatically on DOM changes. */
+  refresh(): void;
   destroy(): void;
 }
 
+/** Registry of the FAQ instances on the page, exposed as `window.curFaq`. */
+export interface FaqRegistry {
+  /** Get an instance by name, or the first instance when no name is given. */
+  get(name?: string): FaqInstance | undefined;
+  /** All live instances, in document order. */
+  all(): FaqInstance[];
+}
+
 declare global {
   interface Window {
-    __curFaqInitialized?: boolean;
-    __curFaq?: FaqInstance;
+    curFaq?: FaqRegistry;
+    curFaqConfig?: FaqGlobalOptions;
+    /** Google Tag Manager's data layer. */
+    dataLayer?: unknown[];
+    gtag?: (...args: unknown[]) => void;
+    plausible?: (event: string, options?: { props?: Record<string, string | number> }) => void;
   }
 }
@@ -1,6 +1,14 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
-import { debounce, ensureId, normalizeText, onDomReady, smoothScrollTo } from './helpers';
+import {
+  debounce,
+  ensureId,
+  foldText,
+  normalizeText,
+  onDomReady,
+  slugify,
+  smoothScrollTo,
+} from './helpers';
 
 describe('normalizeText', () => {
   it('lowercases and trims a string', () => {
@@ -14,6 +22,54 @@ describe('normalizeText', () => {
   it('handles already normalised text', () => {
     expect(normalizeText('already normal')).toBe('already normal');
   });
+
+  it('strips accents', () => {
+    expect(normalizeText('Crème Brûlée')).toBe('creme brulee');
+  });
+
+  it('expands letters without a decomposition', () => {
+    expect(normalizeText('Straße')).toBe('strasse');
+    expect(normalizeText('Œuvre')).toBe('oeuvre');
+  });
+
+  it('applies compatibility normalisation', () => {
+    expect(normalizeText('\uFB01le')).toBe('file');
+  });
+
+  it('lowercases with the rules of the given locale', () => {
+    expect(normalizeText('DİYARBAKIR', 'tr')).toBe('diyarbakir');
+    expect(normalizeText('ISTANBUL', 'tr')).toBe('istanbul');
+  });
+});
+
+describe('slugify', () => {
+  it('joins folded words with hyphens', () => {
+    expect(slugify('  How do I get a Refund? ')).toBe('how-do-i-get-a-refund');
+  });
+
+  it('folds accents', () => {
+    expect(slugify('Crème brûlée & Straße')).toBe('creme-brulee-strasse');
+  });
+
+  it('returns an empty string for text without letters or digits', () => {
+    expect(slugify('?!')).toBe('');
+  });
+});
+
+describe('foldText', () => {
+  it('maps each folded unit back to its source range', () => {
+    const folded = foldText('Straße');
+    expect(folded.text).toBe('strasse');
+    expect(folded.starts).toEqual([0, 1, 2, 3, 4, 4, 5]);
+    expect(folded.ends).toEqual([1, 2, 3, 4, 5, 5, 6]);
+  });
+
+  it('attaches standalone combining marks to the preceding character', () => {
+    const folded = foldText('cre\u0300me');
+    expect(folded.text).toBe('creme');
+    expect(folded.ends[2]).toBe(4);
+    expect(folded.starts[3]).toBe(4);
+  });
 });
 
 describe('ensureId', () => {
@@ -81,6 +137,15 @@ describe('debounce', () => {
     vi.advanceTimersByTime(50);
     expect(fn).toHaveBeenCalledWith('a', 'b');
   });
+
+  it('drops a pending call when cancelled', () => {
+    const fn = vi.fn();
+    const debounced = debounce(fn, 50);
+    debounced();
+    debounced.cancel();
+    vi.advanceTimersByTime(50);
+    expect(fn).not.toHaveBeenCalled();
+  });
 });
 
 describe('onDomReady', () => {
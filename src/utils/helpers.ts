@@ -12,16 +12,29 @@ export const onDomReady = (callback: () => void): void => {
   }
 };
 
+/** A debounced function; `cancel()` drops a pending call. */
+export type Debounced<T extends (...args: never[]) => void> = ((...args: Parameters<T>) => void) & {
+  cancel(): void;
+};
+
 /** Trailing-edge debounce that returns the same function signature. */
 export const debounce = <T extends (...args: never[]) => void>(
   fn: T,
   delay: number
-): ((...args: Parameters<T>) => void) => {
+): Debounced<T> => {
   let timer: number | undefined;
-  return (...args: Parameters<T>) => {
+  const cancel = () => {
     if (timer !== undefined) window.clearTimeout(timer);
-    timer = window.setTimeout(() => fn(...args), delay);
+    timer = undefined;
   };
+  const debounced = (...args: Parameters<T>) => {
+    cancel();
+    timer = window.setTimeout(() => {
+      timer = undefined;
+      fn(...args);
+    }, delay);
+  };
+  return Object.assign(debounced, { cancel });
 };
 
 /** Assign a random ID with the given prefix if the element lacks one. Returns the ID. */
@@ -32,8 +45,76 @@ export const ensureId = (element: HTMLElement, prefix = 'cur'): string => {
   return id;
 };
 
-/** Lowercase and trim a string for case-insensitive comparison. */
-export const normalizeText = (text: string): string => text.toLowerCase().trim();
+/** Letters that survive Unicode decomposition but have a common plain-Latin spelling. */
+const FOLDS: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  đ: 'd',
+  ð: 'd',
+  ł: 'l',
+  þ: 'th',
+  ı: 'i',
+};
+
+/** Folded text plus, for each of its UTF-16 units, the range it came from in the original. */
+export interface FoldedText {
+  text: string;
+  starts: number[];
+  ends: number[];
+}
+
+/**
+ * Fold a string for accent- and case-insensitive comparison: compatibility-decompose it,
+ * drop combining marks, lowercase with the locale's rules (e.g. Turkish dotted I) and
+ * expand letters like `ß` → `ss`. The offset maps let callers translate a range in the
+ * folded text back to the original string.
+ */
+export const foldText = (text: string, locale?: string | null): FoldedText => {
+  let folded = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let index = 0;
+
+  for (const char of text) {
+    const end = index + char.length;
+    const out =
+      char < '\x80' && char !== 'I'
+        ? char.toLowerCase()
+        : Array.from(
+            char
+              .normalize('NFKD')
+              .replace(/\p{M}/gu, '')
+              .toLocaleLowerCase(locale ?? undefined),
+            (c) => FOLDS[c] ?? c
+          ).join('');
+
+    if (out) {
+      for (let i = 0; i < out.length; i++) {
+        starts.push(index);
+        ends.push(end);
+      }
+      folded += out;
+    } else if (ends.length) {
+      // A standalone combining mark belongs to the preceding character
+      ends[ends.length - 1] = end;
+    }
+    index = end;
+  }
+
+  return { text: folded, starts, ends };
+};
+
+/** Fold case and accents (see `foldText`) and trim a string for comparison. */
+export const normalizeText = (text: string, locale?: string | null): string =>
+  foldText(text, locale).text.trim();
+
+/** Turn text into a URL-friendly slug, e.g. "Crème brûlée?" → "creme-brulee". */
+export const slugify = (text: string): string =>
+  normalizeText(text)
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
 
 /** Smooth-scroll an element into the center of the viewport with a fallback. */
 export const smoothScrollTo = (element: HTMLElement): void => {